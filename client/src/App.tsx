@@ -5,9 +5,12 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { validatePlayerId } from "@/lib/auth";
+import { setCurrentRoomId } from "@/lib/gameApi";
 import handleInvalidSession from "@/lib/session";
 import Game from "@/pages/game";
 import Lobby from "@/pages/lobby";
+import Replay from "@/pages/replay";
+import Watch from "@/pages/watch";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -32,6 +35,8 @@ function Router() {
           if (!cancelled) setAuthState('invalid');
           return;
         }
+        // follow the player to whichever room the server has them in
+        if (res.player?.roomId) setCurrentRoomId(res.player.roomId);
         if (!cancelled) setAuthState('valid');
       } catch (err) {
         try { await handleInvalidSession(queryClient); } catch {}
@@ -60,6 +65,8 @@ function Router() {
       <Switch>
         <Route path="/" component={Game} />
         <Route path="/lobby" component={Lobby} />
+        <Route path="/replay/:gameId" component={Replay} />
+        <Route path="/watch/:roomId" component={Watch} />
         <Route component={NotFound} />
       </Switch>
   );
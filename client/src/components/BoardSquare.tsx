@@ -15,6 +15,8 @@ interface BoardSquareProps {
   highlight?: 'valid' | 'invalid' | 'checking' | null;
   isLastMove?: boolean;
   preview?: { letter: string; isBlank?: boolean; playerId?: string } | null;
+  // Tile of a suggested play, drawn as a ghost on the empty square
+  hint?: { letter: string; isBlank?: boolean } | null;
 }
 
 const SQUARE_COLORS: Record<SquareType, string> = {
@@ -35,7 +37,7 @@ const SQUARE_LABELS: Record<SquareType, string> = {
   NORMAL: ''
 };
 
-export default function BoardSquare({ row, col, type, letter, isNewlyPlaced, isBlankPlaced, isTypingCursor, onClick, onDrop, highlight, isLastMove, preview }: BoardSquareProps) {
+export default function BoardSquare({ row, col, type, letter, isNewlyPlaced, isBlankPlaced, isTypingCursor, onClick, onDrop, highlight, isLastMove, preview, hint }: BoardSquareProps) {
   const hasLetter = letter !== null;
 
   const handleDragOver = (e: any) => {
@@ -119,7 +121,8 @@ export default function BoardSquare({ row, col, type, letter, isNewlyPlaced, isB
               <Tile
                 letter={letter}
                 isBlank={!!isBlankPlaced}
-                style={{ ...fontStyle, compactBadge: true } as any}
+                style={fontStyle}
+                compactBadge
                 onClick={onClick}
                 onDragStart={(e) => {
                   try {
@@ -171,6 +174,19 @@ export default function BoardSquare({ row, col, type, letter, isNewlyPlaced, isB
           </div>
         </div>
       )}
+      {/* Hint ghost when square is empty; it gives way to tiles being placed */}
+      {!hasLetter && hint && !isNewlyPlaced && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none" data-testid={`hint-${row}-${col}`}>
+          <div className="w-[75%] h-[75%] opacity-40 rounded-md ring-2 ring-dashed ring-amber-500">
+            <Tile
+              letter={hint.letter}
+              isBlank={!!hint.isBlank}
+              compactBadge
+              isSelected={false}
+            />
+          </div>
+        </div>
+      )}
       {/* Preview tile when square is empty */}
       {!hasLetter && preview && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -178,7 +194,7 @@ export default function BoardSquare({ row, col, type, letter, isNewlyPlaced, isB
             <Tile
               letter={preview.letter}
               isBlank={!!preview.isBlank}
-              style={{ compactBadge: true } as any}
+              compactBadge
               isSelected={false}
             />
           </div>
@@ -9,16 +9,24 @@ interface EndGameScreenProps {
   onNewGame?: () => void;
   onClose?: () => void;
   onMinimize?: () => void;
+  onReplay?: () => void;
 }
 
-export default function EndGameScreen({ gameState, currentPlayerId, onNewGame, onClose, onMinimize }: EndGameScreenProps) {
+export default function EndGameScreen({ gameState, currentPlayerId, onNewGame, onClose, onMinimize, onReplay }: EndGameScreenProps) {
   const winner = gameState.players.find(p => p.id === gameState.winnerId);
   const currentPlayer = gameState.players.find(p => p.id === currentPlayerId);
   const isWinner = winner?.id === currentPlayerId;
+  // Several players sharing the top score
+  const tiedPlayers = (gameState.winnerIds || []).length > 1
+    ? gameState.players.filter(p => gameState.winnerIds!.includes(p.id))
+    : [];
+  const isTie = tiedPlayers.length > 1;
 
   // Calculate statistics
   const moves = gameState.moves || [];
   const playMoves = moves.filter(m => m.type === 'play') as Move[];
+  // End-of-game adjustments (hints of a turn without a move are not one)
+  const adjustments = moves.filter(m => m.type === 'adjustment' && m.meta?.reason !== 'hints') as Move[];
   
   // Highest scored move
   const highestMove = playMoves.reduce((prev, curr) => 
@@ -26,10 +34,17 @@ export default function EndGameScreen({ gameState, currentPlayerId, onNewGame, o
     { score: 0 } as Move
   );
 
-  // Highest scored single word (approximate - use move score if only one word, otherwise divide)
+  // Highest scored single word; moves recorded before per-word scores
+  // existed are approximated by splitting the move score evenly
   let highestWord = { word: '', score: 0, move: null as Move | null };
   for (const move of playMoves) {
-    if (move.words.length === 1) {
+    if (move.wordScores) {
+      for (const ws of move.wordScores) {
+        if (ws.score > highestWord.score) {
+          highestWord = { word: ws.word, score: ws.score, move };
+        }
+      }
+    } else if (move.words.length === 1) {
       if (move.score > highestWord.score) {
         highestWord = { word: move.words[0], score: move.score, move };
       }
@@ -92,17 +107,22 @@ export default function EndGameScreen({ gameState, currentPlayerId, onNewGame, o
           )}
         </div>
         <div className="text-center">
-          <div className={`text-6xl mb-4 ${isWinner ? 'text-yellow-500' : 'text-gray-400'}`}>
-            {isWinner ? '🏆' : '😔'}
+          <div className={`text-6xl mb-4 ${isWinner || isTie ? 'text-yellow-500' : 'text-gray-400'}`}>
+            {isWinner ? '🏆' : isTie ? '🤝' : '😔'}
           </div>
           <h1 className="text-4xl font-bold mb-2">
-            {isWinner ? 'Поздравляем! Вы выиграли!' : 'Игра окончена'}
+            {isWinner ? 'Поздравляем! Вы выиграли!' : isTie ? 'Ничья!' : 'Игра окончена'}
           </h1>
           {winner && (
             <p className="text-2xl text-muted-foreground">
               Победитель: <span className="font-bold text-primary">{winner.name}</span> ({winner.score} очков)
             </p>
           )}
+          {isTie && (
+            <p className="text-2xl text-muted-foreground">
+              {tiedPlayers.map(p => p.name).join(', ')} — по {tiedPlayers[0].score} очков
+            </p>
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -116,13 +136,26 @@ export default function EndGameScreen({ gameState, currentPlayerId, onNewGame, o
                 .sort((a, b) => b.score - a.score)
                 .map((player, idx) => (
                   <div key={player.id} className="flex justify-between items-center">
-                    <span className={player.id === gameState.winnerId ? 'font-bold' : ''}>
+                    <span className={(gameState.winnerIds || [gameState.winnerId]).includes(player.id) ? 'font-bold' : ''}>
                       {idx + 1}. {player.name}
                     </span>
                     <span className="font-semibold">{player.score}</span>
                   </div>
                 ))}
             </div>
+            {adjustments.length > 0 && (
+              <div className="mt-3 pt-2 border-t space-y-1 text-sm text-muted-foreground">
+                {adjustments.map((m, idx) => (
+                  <div key={idx} className="flex justify-between">
+                    <span>{m.playerName}</span>
+                    <span>
+                      {m.score > 0 ? `+${m.score}` : `−${-m.score}`}{' '}
+                      {m.meta?.reason === 'going_out_bonus' ? 'за фишки соперников' : m.meta?.reason === 'overtime' ? `за превышение времени (${m.meta.minutes} мин)` : 'за оставшиеся фишки'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </Card>
 
           <Card className="p-4">
@@ -177,14 +210,25 @@ export default function EndGameScreen({ gameState, currentPlayerId, onNewGame, o
           </Card>
         </div>
 
-        {onNewGame && (
-          <div className="text-center pt-4">
-            <button
-              onClick={onNewGame}
-              className="px-6 py-3 bg-primary text-primary-foreground rounded-lg font-semibold hover:bg-primary/90 transition-colors"
-            >
-              Новая игра
-            </button>
+        {(onNewGame || onReplay) && (
+          <div className="flex justify-center gap-3 pt-4">
+            {onReplay && (
+              <button
+                onClick={onReplay}
+                className="px-6 py-3 border rounded-lg font-semibold hover:bg-muted/20 transition-colors"
+                data-testid="button-replay"
+              >
+                Повтор партии
+              </button>
+            )}
+            {onNewGame && (
+              <button
+                onClick={onNewGame}
+                className="px-6 py-3 bg-primary text-primary-foreground rounded-lg font-semibold hover:bg-primary/90 transition-colors"
+              >
+                Новая игра
+              </button>
+            )}
           </div>
         )}
       </Card>
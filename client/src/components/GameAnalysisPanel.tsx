@@ -0,0 +1,65 @@
+import { Card } from "@/components/ui/card";
+import type { GameAnalysis } from "@shared/schema";
+
+interface GameAnalysisPanelProps {
+  analysis: GameAnalysis;
+  // Move shown in the replay, or null at the starting position
+  moveIndex: number | null;
+  // Alternative currently previewed on the board
+  selected: number | null;
+  onSelect: (index: number | null) => void;
+}
+
+export default function GameAnalysisPanel({ analysis, moveIndex, selected, onSelect }: GameAnalysisPanelProps) {
+  const turn = analysis.turns.find(t => t.moveIndex === moveIndex);
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="panel-analysis">
+      <div className="font-semibold">Анализ партии</div>
+      <div className="space-y-1 text-sm">
+        {analysis.players.map(p => (
+          <div key={p.playerId} className="flex justify-between" data-testid={`analysis-player-${p.playerId}`}>
+            <span>{p.name}</span>
+            <span>
+              точность <span className="font-semibold">{p.accuracy}%</span>
+              {' • '}упущено {p.pointsLost} очк.
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {moveIndex !== null && (
+        <div className="pt-2 border-t space-y-2 text-sm">
+          {!turn ? (
+            <div className="text-muted-foreground">Этот ход не анализируется</div>
+          ) : (
+            <>
+              <div>
+                Сыграно {turn.actualScore} очк.
+                {turn.alternatives.length > 0 && <>, лучший ход {turn.alternatives[0].score} очк.</>}
+                {turn.pointsLost > 0 && <span className="text-amber-700 dark:text-amber-400"> (−{turn.pointsLost})</span>}
+              </div>
+              {turn.alternatives.length === 0 ? (
+                <div className="text-muted-foreground">Других ходов не было</div>
+              ) : (
+                <div className="flex flex-col gap-1">
+                  {turn.alternatives.map((alt, i) => (
+                    <button
+                      key={i}
+                      onClick={() => onSelect(selected === i ? null : i)}
+                      className={`flex justify-between rounded border px-2 py-1 text-left hover:bg-muted/20 ${selected === i ? 'border-primary' : ''}`}
+                      data-testid={`button-alternative-${i}`}
+                    >
+                      <span>{alt.words.join(', ')}</span>
+                      <span className="font-semibold">{alt.score}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
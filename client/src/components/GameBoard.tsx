@@ -10,6 +10,8 @@ interface GameBoardProps {
   typingCursor?: { row: number; col: number; direction: 'right' | 'down' } | null;
   lastMovePositions?: { row: number; col: number }[];
   previews?: Record<string, PlacedTile[]>;
+  // Suggested play shown as ghost tiles (see the hint button)
+  hintTiles?: PlacedTile[];
 }
 
 function getSquareType(row: number, col: number): SquareType {
@@ -21,7 +23,7 @@ function getSquareType(row: number, col: number): SquareType {
   return 'NORMAL';
 }
 
-export default function GameBoard({ board, placedTiles, onSquareClick, onTileDrop, placedWordStatuses, lastMovePositions, typingCursor, previews }: GameBoardProps) {
+export default function GameBoard({ board, placedTiles, onSquareClick, onTileDrop, placedWordStatuses, lastMovePositions, typingCursor, previews, hintTiles }: GameBoardProps) {
   return (
     <div className="w-full max-w-[800px] mx-auto" data-testid="game-board">
       <div 
@@ -71,6 +73,8 @@ export default function GameBoard({ board, placedTiles, onSquareClick, onTileDro
               }
             }
 
+            const hintTile = hintTiles?.find(t => t.row === rowIndex && t.col === colIndex);
+
             const isTypingCursor = typingCursor && typingCursor.row === rowIndex && typingCursor.col === colIndex ? typingCursor.direction : null;
 
             return (
@@ -88,6 +92,7 @@ export default function GameBoard({ board, placedTiles, onSquareClick, onTileDro
                 highlight={highlight}
                 isLastMove={isLastMovePlaced}
                 preview={previewForSquare ? { letter: previewForSquare.tile.letter, isBlank: !!previewForSquare.tile.blank, playerId: previewForSquare.playerId } : null}
+                hint={hintTile ? { letter: hintTile.letter, isBlank: !!hintTile.blank } : null}
               />
             );
           })
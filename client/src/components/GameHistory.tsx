@@ -0,0 +1,72 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { importGame, listGames } from "@/lib/gameApi";
+import type { ArchivedGameSummary } from "@shared/schema";
+
+interface GameHistoryProps {
+  // Account id (or player id / name) whose finished games to list
+  player: string;
+}
+
+export default function GameHistory({ player }: GameHistoryProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { data: games, isLoading } = useQuery<ArchivedGameSummary[]>({
+    queryKey: ['/api/games', player],
+    queryFn: () => listGames(player),
+    staleTime: 1000 * 60,
+  });
+
+  // Open a GCG file from another program in the replay viewer
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { gameId } = await importGame(await file.text());
+      setLocation(`/replay/${gameId}`);
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Не удалось загрузить партию', description: err instanceof Error ? err.message : 'Ошибка' });
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded border p-3" data-testid="panel-game-history">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium">История партий</div>
+        <Button size="sm" variant="ghost" onClick={() => fileRef.current?.click()} data-testid="button-import-gcg">Импорт GCG</Button>
+        <input ref={fileRef} type="file" accept=".gcg,text/plain" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+      </div>
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Загрузка…</div>
+      ) : !games || games.length === 0 ? (
+        <div className="text-sm text-muted-foreground">Сыгранных партий пока нет</div>
+      ) : (
+        <div className="flex flex-col gap-2 max-h-60 overflow-auto">
+          {games.map(g => (
+            <div key={g.id} className="flex items-center justify-between gap-3 text-sm" data-testid={`game-history-${g.id}`}>
+              <div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(g.endedAt).toLocaleString()}{g.roomName ? ` • ${g.roomName}` : ''}
+                </div>
+                <div>
+                  {[...g.players].sort((a, b) => b.score - a.score).map((p, i) => (
+                    <span key={p.id}>
+                      {i > 0 && ', '}
+                      <span className={g.winnerIds.includes(p.id) ? 'font-semibold' : ''}>{p.name} {p.score}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setLocation(`/replay/${g.id}`)}>Повтор</Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
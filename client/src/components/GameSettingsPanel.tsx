@@ -0,0 +1,184 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { GameSettings, TimeoutAction } from "@shared/schema";
+
+interface GameSettingsPanelProps {
+  settings: GameSettings;
+  // Only the host may edit; everyone else sees the chosen rules
+  editable: boolean;
+  playerCount: number;
+  onChange: (patch: Partial<GameSettings>) => void;
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  disabled: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Numeric input that sends its value when it loses focus or on Enter
+function NumberField({ id, label, value, min, max, disabled, onCommit }: NumberFieldProps) {
+  const commit = (raw: string) => {
+    const n = Math.round(Number(raw));
+    if (!Number.isFinite(n) || n === value) return;
+    onCommit(Math.min(max, Math.max(min, n)));
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <Label htmlFor={id} className="text-sm">{label}</Label>
+      <Input
+        // remount when the saved value changes so the field shows it
+        key={value}
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        defaultValue={value}
+        disabled={disabled}
+        className="w-24"
+        onBlur={(e) => commit(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit((e.target as HTMLInputElement).value); }}
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+}
+
+export default function GameSettingsPanel({ settings, editable, playerCount, onChange }: GameSettingsPanelProps) {
+  const disabled = !editable;
+
+  return (
+    <div className="mt-4 rounded border p-3 flex flex-col gap-2" data-testid="panel-game-settings">
+      <div className="text-sm font-medium">Настройки партии{editable ? '' : ' (выбирает хозяин комнаты)'}</div>
+      <NumberField
+        id="turn-seconds"
+        label="Время на ход, сек"
+        value={settings.turnSeconds}
+        min={15}
+        max={3600}
+        // With a chess clock only the time bank counts
+        disabled={disabled || settings.totalSeconds > 0}
+        onCommit={(turnSeconds) => onChange({ turnSeconds })}
+      />
+      <NumberField
+        id="total-minutes"
+        label="Шахматные часы: время игрока, мин (0 — выкл.)"
+        value={Math.round(settings.totalSeconds / 60)}
+        min={0}
+        max={240}
+        disabled={disabled}
+        onCommit={(minutes) => onChange({ totalSeconds: minutes * 60 })}
+      />
+      {settings.totalSeconds > 0 && (
+        <NumberField
+          id="overtime-penalty"
+          label="Штраф за каждую начатую минуту сверх времени, очков (после 10 мин сверх времени ходы пропускаются)"
+          value={settings.overtimePenalty}
+          min={0}
+          max={100}
+          disabled={disabled}
+          onCommit={(overtimePenalty) => onChange({ overtimePenalty })}
+        />
+      )}
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm">Игроков</Label>
+        <Select
+          value={String(settings.maxPlayers)}
+          onValueChange={(v) => onChange({ maxPlayers: Number(v) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-24" data-testid="select-max-players">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[2, 3, 4].map(n => (
+              <SelectItem key={n} value={String(n)} disabled={n < playerCount}>{n}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <NumberField
+        id="bingo-bonus"
+        label="Бонус за все 7 фишек"
+        value={settings.bingoBonus}
+        min={0}
+        max={200}
+        disabled={disabled}
+        onCommit={(bingoBonus) => onChange({ bingoBonus })}
+      />
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="exchange-under-seven" className="text-sm">Обмен, когда в мешке меньше 7 фишек</Label>
+        <Switch
+          id="exchange-under-seven"
+          checked={settings.exchangeUnderSeven}
+          onCheckedChange={(exchangeUnderSeven) => onChange({ exchangeUnderSeven })}
+          disabled={disabled}
+          data-testid="switch-exchange-under-seven"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm">Когда время хода вышло</Label>
+        <Select
+          value={settings.timeoutAction}
+          onValueChange={(v) => onChange({ timeoutAction: v as TimeoutAction })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-40" data-testid="select-timeout-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="skip">Пропуск хода</SelectItem>
+            <SelectItem value="penalty">Пропуск и штраф</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {settings.timeoutAction === 'penalty' && (
+        <NumberField
+          id="timeout-penalty"
+          label="Штраф за просроченный ход, очков"
+          value={settings.timeoutPenalty}
+          min={0}
+          max={100}
+          disabled={disabled}
+          onCommit={(timeoutPenalty) => onChange({ timeoutPenalty })}
+        />
+      )}
+      <NumberField
+        id="spectator-preview-delay"
+        label="Зрители видят выкладку фишек с задержкой, сек (0 — сразу)"
+        value={settings.spectatorPreviewDelay}
+        min={0}
+        max={600}
+        disabled={disabled}
+        onCommit={(spectatorPreviewDelay) => onChange({ spectatorPreviewDelay })}
+      />
+      <NumberField
+        id="hint-limit"
+        label="Подсказок на игрока за партию (0 — без подсказок)"
+        value={settings.hintLimit}
+        min={0}
+        max={20}
+        disabled={disabled}
+        onCommit={(hintLimit) => onChange({ hintLimit })}
+      />
+      {settings.hintLimit > 0 && (
+        <NumberField
+          id="hint-penalty"
+          label="Штраф за подсказку, очков"
+          value={settings.hintPenalty}
+          min={0}
+          max={50}
+          disabled={disabled}
+          onCommit={(hintPenalty) => onChange({ hintPenalty })}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,19 @@ import { Clock } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 
 interface GameTimerProps {
+  // Seconds left; negative means overtime on a chess clock
   timeLeft: number;
   totalTime: number;
+  // Shown under the clock, e.g. whose time bank is running
+  label?: string;
 }
 
-export default function GameTimer({ timeLeft, totalTime }: GameTimerProps) {
-  const minutes = Math.floor(timeLeft / 60);
-  const seconds = timeLeft % 60;
-  const percentage = (timeLeft / totalTime) * 100;
+export default function GameTimer({ timeLeft, totalTime, label }: GameTimerProps) {
+  const overtime = timeLeft < 0;
+  const abs = Math.abs(timeLeft);
+  const minutes = Math.floor(abs / 60);
+  const seconds = abs % 60;
+  const percentage = Math.max(0, (timeLeft / totalTime) * 100);
   const isCritical = timeLeft <= 30;
 
   return (
@@ -26,9 +31,14 @@ export default function GameTimer({ timeLeft, totalTime }: GameTimerProps) {
           className={`text-4xl font-bold font-mono ${isCritical ? 'text-destructive' : 'text-foreground'}`}
           data-testid="timer-display"
         >
-          {minutes}:{seconds.toString().padStart(2, '0')}
+          {overtime ? '−' : ''}{minutes}:{seconds.toString().padStart(2, '0')}
         </div>
       </div>
+      {(label || overtime) && (
+        <div className="text-xs text-muted-foreground" data-testid="timer-label">
+          {label}{label && overtime ? ' • ' : ''}{overtime ? 'овертайм' : ''}
+        </div>
+      )}
       <Progress 
         value={percentage} 
         className={`w-full h-2 ${isCritical ? '[&>div]:bg-destructive' : ''}`}
@@ -8,13 +8,16 @@ import { Users } from "lucide-react";
 interface JoinGameDialogProps {
   open: boolean;
   playerCount: number;
+  maxPlayers?: number;
   onJoin: (name: string, password: string) => void;
   defaultName?: string;
   error?: string | null;
   isLoading?: boolean;
+  roomName?: string;
+  onCancel?: () => void;
 }
 
-export default function JoinGameDialog({ open, playerCount, onJoin, defaultName, error, isLoading }: JoinGameDialogProps) {
+export default function JoinGameDialog({ open, playerCount, maxPlayers = 3, onJoin, defaultName, error, isLoading, roomName, onCancel }: JoinGameDialogProps) {
   const [playerName, setPlayerName] = useState('');
   const [password, setPassword] = useState('');
 
@@ -33,12 +36,12 @@ export default function JoinGameDialog({ open, playerCount, onJoin, defaultName,
   };
 
   return (
-    <Dialog open={open}>
+    <Dialog open={open} onOpenChange={(next) => { if (!next && onCancel) onCancel(); }}>
       <DialogContent className="sm:max-w-md" data-testid="dialog-join-game">
         <DialogHeader>
           <DialogTitle className="text-2xl">Присоединиться к игре</DialogTitle>
           <DialogDescription>
-            Введите ваше имя чтобы начать играть в Эрудит
+            {roomName ? `Комната «${roomName}». ` : ''}Введите ваше имя чтобы начать играть в Эрудит
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -68,7 +71,7 @@ export default function JoinGameDialog({ open, playerCount, onJoin, defaultName,
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Users className="w-4 h-4" />
             <span data-testid="text-player-count">
-              {playerCount}/3 игроков
+              {playerCount}/{maxPlayers} игроков
             </span>
           </div>
           {error && (
@@ -78,11 +81,16 @@ export default function JoinGameDialog({ open, playerCount, onJoin, defaultName,
             type="submit" 
             className="w-full" 
             size="lg"
-            disabled={!playerName.trim() || !password.trim() || playerCount >= 3 || isLoading}
+            disabled={!playerName.trim() || !password.trim() || playerCount >= maxPlayers || isLoading}
             data-testid="button-join"
           >
             {isLoading ? 'Подключение...' : 'Присоединиться'}
           </Button>
+          {onCancel && (
+            <Button type="button" variant="ghost" className="w-full" onClick={onCancel} data-testid="button-join-cancel">
+              Назад к списку комнат
+            </Button>
+          )}
         </form>
       </DialogContent>
     </Dialog>
@@ -6,6 +6,10 @@ interface PlayerCardProps {
   player: Player;
   isCurrentPlayer: boolean;
   playerIndex: number;
+  // Chess-clock time left in seconds (negative in overtime)
+  clockSeconds?: number | null;
+  // Tiles on the player's rack, shown to spectators who cannot see it
+  tileCount?: number;
   // optional voice controls/state (injected by parent)
   voiceMuted?: boolean;
   voiceVolume?: number; // 0..1
@@ -17,7 +21,7 @@ interface PlayerCardProps {
 
 // Player-specific colors removed — use neutral border for consistency
 
-export default function PlayerCard({ player, isCurrentPlayer, playerIndex, voiceMuted, voiceVolume, voiceLevel, voiceStatus, onToggleMute, onVolumeChange }: PlayerCardProps) {
+export default function PlayerCard({ player, isCurrentPlayer, playerIndex, clockSeconds, tileCount, voiceMuted, voiceVolume, voiceLevel, voiceStatus, onToggleMute, onVolumeChange }: PlayerCardProps) {
   return (
     <Card
       className={`p-3 border-l-4 border-border transition-all duration-150 ${isCurrentPlayer ? 'ring-1 ring-primary shadow' : 'shadow-sm'} w-1/3 min-h-28 overflow-hidden card-scale`}
@@ -38,12 +42,20 @@ export default function PlayerCard({ player, isCurrentPlayer, playerIndex, voice
         {/* Second row: name (wraps if needed) */}
         <div className="min-w-0">
           <h3 className="font-medium text-sm break-all whitespace-normal" data-testid={`player-name-${player.id}`}>{player.name}</h3>
+          {typeof tileCount === 'number' && (
+            <div className="text-xs text-muted-foreground" data-testid={`player-tiles-${player.id}`}>Фишек: {tileCount}</div>
+          )}
         </div>
 
         {/* Second row: score and current marker */}
         <div className="flex items-center justify-between">
           {/* <div className="text-sm text-muted-foreground">{isCurrentPlayer ? 'ход' : ''}</div> */}
           <div className="text-lg font-semibold" data-testid={`player-score-${player.id}`}>{player.score}</div>
+          {typeof clockSeconds === 'number' && (
+            <div className={`text-sm font-mono ${clockSeconds < 0 ? 'text-destructive' : 'text-muted-foreground'}`} data-testid={`player-clock-${player.id}`}>
+              {clockSeconds < 0 ? '−' : ''}{Math.floor(Math.abs(clockSeconds) / 60)}:{(Math.abs(clockSeconds) % 60).toString().padStart(2, '0')}
+            </div>
+          )}
         </div>
 
         {/* Third row: voice controls */}
@@ -0,0 +1,34 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+interface Props {
+  open: boolean;
+  playerName: string;
+  words: string[];
+  isLoading?: boolean;
+  onApprove: () => void;
+  onDecline: () => void;
+}
+
+// Asks an opponent whether `playerName` may take back their last play
+export default function TakebackDialog({ open, playerName, words, isLoading, onApprove, onDecline }: Props) {
+  return (
+    <Dialog open={open}>
+      <DialogContent data-testid="dialog-takeback">
+        <DialogHeader>
+          <DialogTitle>Отмена хода</DialogTitle>
+          <DialogDescription>
+            {playerName} просит взять назад ход{words.length > 0 ? ` «${words.join(', ')}»` : ''}. Фишки вернутся на подставку, очки будут сняты, и игрок походит заново.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="mt-4">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onDecline} disabled={isLoading} data-testid="button-takeback-decline">Отклонить</Button>
+            <Button onClick={onApprove} disabled={isLoading} data-testid="button-takeback-approve">Разрешить</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
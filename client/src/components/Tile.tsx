@@ -15,7 +15,7 @@ interface TileProps {
   style?: React.CSSProperties;
 }
 
-export default function Tile({ letter, isSelected, isEmpty, isBlank, onClick, className = '', draggable, onDragStart, onDragEnd, style }: TileProps) {
+export default function Tile({ letter, isSelected, isEmpty, isBlank, compactBadge, onClick, className = '', draggable, onDragStart, onDragEnd, style }: TileProps) {
   if (isEmpty) {
     return (
       <div 
@@ -69,7 +69,6 @@ export default function Tile({ letter, isSelected, isEmpty, isBlank, onClick, cl
   const mainFontSize = explicitFontSize ?? (tileSize ? Math.max(12, Math.round(tileSize * 0.56)) : undefined);
 
   // badge sizing: compute a badge diameter and font size relative to tile size
-  const compactBadge = !!(style as any)?.compactBadge;
   const badgeDiameter = tileSize ? Math.max(10, Math.round(tileSize * (compactBadge ? 0.20 : 0.22))) : 14;
   const pointsFontSize = Math.max(8, Math.round(badgeDiameter * 0.46));
 
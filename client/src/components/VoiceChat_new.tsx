@@ -2,11 +2,13 @@ import React, { useEffect, useRef, useState } from 'react';
 
 interface VoiceChatProps {
   playerId: string | null;
+  // Voice channel; peers are only connected within the same room
+  roomId?: string;
   voiceVolume?: number;
   playerNames?: Record<string, string>;
 }
 
-export default function VoiceChatMinimal({ playerId, voiceVolume = 1, playerNames }: VoiceChatProps) {
+export default function VoiceChatMinimal({ playerId, roomId, voiceVolume = 1, playerNames }: VoiceChatProps) {
   const wsRef = useRef<WebSocket | null>(null);
   const [wsState, setWsState] = useState<'connecting' | 'open' | 'closed' | 'error' | 'none'>('none');
   const pcRefs = useRef<Record<string, RTCPeerConnection>>({});
@@ -51,7 +53,7 @@ export default function VoiceChatMinimal({ playerId, voiceVolume = 1, playerName
       const onOpen = () => {
         console.log('[VoiceChat] ws open');
         setWsState('open');
-        try { ws!.send(JSON.stringify({ type: 'join', playerId })); } catch (e) {}
+        try { ws!.send(JSON.stringify({ type: 'join', playerId, roomId })); } catch (e) {}
         try {
           wsKeepaliveTimer = window.setInterval(() => {
             try { if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'ws-ping' })); } catch (e) {}
@@ -100,7 +102,7 @@ export default function VoiceChatMinimal({ playerId, voiceVolume = 1, playerName
     const onReconnect = () => { try { if (cleanupCurrent) { cleanupCurrent(); cleanupCurrent = null; } } catch (e) {} setup(); };
     window.addEventListener('voicechat:reconnect', onReconnect);
     return () => { try { if (cleanupCurrent) cleanupCurrent(); } catch (e) {} window.removeEventListener('voicechat:reconnect', onReconnect); };
-  }, [playerId]);
+  }, [playerId, roomId]);
 
   // Add local tracks to existing peer connections and renegotiate
   async function addLocalTracksToPeers() {
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { GameState } from "@shared/schema";
+import { applyGameDiff, type GameChannelClientMessage, type GameChannelServerMessage } from "@shared/gameChannel";
+
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Follow a room's game state over the /ws game channel and keep the
+ * `['/api/rooms', roomId]` query cache up to date with the game as the
+ * signed-in player sees it (the spectator view without a seat). The server
+ * reads the session cookie when the socket connects, so pass `playerId` to
+ * reconnect when the player changes. Returns whether the channel is live,
+ * so callers can fall back to polling when it is not.
+ */
+export function useGameChannel(roomId: string | null | undefined, playerId?: string | null) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  // Sequence number of the last snapshot or diff applied; null while waiting for a snapshot
+  const seqRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!roomId) return;
+    const queryKey = ['/api/rooms', roomId];
+    let ws: WebSocket | null = null;
+    let disposed = false;
+    let reconnectTimer: number | null = null;
+
+    const send = (msg: GameChannelClientMessage) => {
+      try { if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg)); } catch {}
+    };
+
+    const resync = () => {
+      seqRef.current = null;
+      send({ type: 'game-resync', roomId });
+    };
+
+    const onMessage = (ev: MessageEvent) => {
+      let msg: GameChannelServerMessage;
+      try { msg = JSON.parse(ev.data); } catch { return; }
+      if (!msg || msg.roomId !== roomId) return;
+
+      if (msg.type === 'game-snapshot') {
+        seqRef.current = msg.seq;
+        queryClient.setQueryData(queryKey, msg.state);
+      } else if (msg.type === 'game-diff') {
+        if (seqRef.current === null) return; // a snapshot is on its way
+        if (msg.seq <= seqRef.current) return;
+        const cached = queryClient.getQueryData<GameState | null>(queryKey);
+        if (msg.seq !== seqRef.current + 1 || !cached) {
+          console.warn('[GameChannel] missed updates, resyncing', { have: seqRef.current, got: msg.seq });
+          resync();
+          return;
+        }
+        seqRef.current = msg.seq;
+        queryClient.setQueryData(queryKey, applyGameDiff(cached, msg.diff));
+      }
+    };
+
+    const connect = () => {
+      if (disposed) return;
+      const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      try {
+        ws = new WebSocket(`${protocol}://${window.location.host}/ws`);
+      } catch (err) {
+        console.warn('[GameChannel] websocket creation failed', err);
+        reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+        return;
+      }
+      ws.addEventListener('open', () => {
+        seqRef.current = null;
+        send({ type: 'game-subscribe', roomId });
+        setConnected(true);
+      });
+      ws.addEventListener('message', onMessage);
+      ws.addEventListener('close', () => {
+        setConnected(false);
+        if (!disposed) reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+      });
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      send({ type: 'game-unsubscribe', roomId });
+      try { ws?.close(); } catch {}
+      setConnected(false);
+    };
+  }, [roomId, playerId, queryClient]);
+
+  return { connected };
+}
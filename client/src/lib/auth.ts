@@ -13,14 +13,15 @@ export async function validatePlayerId(playerId: string, force = false): Promise
   if (cached && (now - cached.ts) > TTL) cache.delete(playerId);
 
   try {
-    const resp = await fetch(`/api/player/${encodeURIComponent(playerId)}`);
-    if (!resp.ok) {
+    // The session cookie must still be signed in as the saved player
+    const resp = await fetch('/api/session');
+    const data = resp.ok ? await resp.json() : null;
+    if (data?.id !== playerId) {
       // Don't mutate localStorage here; let callers decide how to handle invalid sessions.
       const out = { ok: false };
       cache.set(playerId, { ts: now, val: out });
       return out;
     }
-    const data = await resp.json();
     const out = { ok: true, player: data };
     cache.set(playerId, { ts: now, val: out });
     return out;
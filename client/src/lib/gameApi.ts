@@ -1,30 +1,118 @@
-import { GameState } from "@shared/schema";
+import { ArchivedGameSummary, BotLevel, CandidatePlay, GameSettings, GameState, Move, PlacedTile, RoomSummary } from "@shared/schema";
 
-export async function getGameState(): Promise<GameState | null> {
-  const response = await fetch('/api/game');
+export const DEFAULT_ROOM_ID = 'default';
+
+// The room this browser last joined; persisted next to playerId
+export function getCurrentRoomId(): string {
+  try { return localStorage.getItem('roomId') || DEFAULT_ROOM_ID; } catch { return DEFAULT_ROOM_ID; }
+}
+
+export function setCurrentRoomId(roomId: string) {
+  try { localStorage.setItem('roomId', roomId); } catch {}
+}
+
+// The player this browser joined as, if any. The server knows who is signed
+// in from the session cookie set on join; this only remembers the id.
+export function getCurrentPlayerId(): string | null {
+  try { return localStorage.getItem('playerId'); } catch { return null; }
+}
+
+function roomUrl(roomId: string, path = ''): string {
+  return `/api/rooms/${encodeURIComponent(roomId)}${path}`;
+}
+
+// Times a request is sent again after losing a race with another one
+const STALE_RETRIES = 3;
+
+// POST JSON. The server answers 409 when another request saved the game
+// between its read and its write; it applies each action to the latest
+// state, so sending the same request again merges it with the other change.
+async function postJson(url: string, body: unknown): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (response.status !== 409 || attempt >= STALE_RETRIES) return response;
+    await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100 * (attempt + 1)));
+  }
+}
+
+// Query cache updater for a state from a response. Responses and pushed
+// updates can arrive out of order, so the cached state stays if it was saved
+// later than `next`.
+export function newerGameState(next: GameState) {
+  return (current: GameState | null | undefined): GameState =>
+    current && (current.version ?? 0) > (next.version ?? 0) ? current : next;
+}
+
+export async function listRooms(): Promise<RoomSummary[]> {
+  const response = await fetch('/api/rooms');
+  if (!response.ok) {
+    throw new Error('Failed to list rooms');
+  }
+  return response.json();
+}
+
+// Finished games of a player (id, account id or name), newest first
+export async function listGames(player: string): Promise<ArchivedGameSummary[]> {
+  const response = await fetch(`/api/games?player=${encodeURIComponent(player)}`);
+  if (!response.ok) {
+    throw new Error('Failed to list games');
+  }
+  return response.json();
+}
+
+// GCG downloads of a finished game or of a room's current game
+export function gameGcgUrl(gameId: string): string {
+  return `/api/games/${encodeURIComponent(gameId)}/gcg`;
+}
+
+export function roomGcgUrl(roomId = getCurrentRoomId()): string {
+  return roomUrl(roomId, '/gcg');
+}
+
+// Store a game from GCG text; returns the id to open it in the replay viewer
+export async function importGame(text: string): Promise<{ gameId: string }> {
+  const response = await postJson('/api/games/import', { text });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to import game');
+  }
+  return response.json();
+}
+
+export async function createRoom(name: string): Promise<{ roomId: string; room: RoomSummary; gameState: GameState }> {
+  const response = await postJson('/api/rooms', { name });
+  // Rooms are created by signed-in players; newcomers join the shared room first
+  if (response.status === 401) throw new Error('Сначала войдите в комнату, например в общую');
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to create room');
+  }
+  return response.json();
+}
+
+// The room's game as the signed-in player sees it; without a seat in it, the spectator view
+export async function getGameState(roomId = getCurrentRoomId()): Promise<GameState | null> {
+  const response = await fetch(roomUrl(roomId));
   if (!response.ok) {
     throw new Error('Failed to get game state');
   }
   return response.json();
 }
 
-export async function initializeGame(): Promise<GameState> {
-  const response = await fetch('/api/game/init', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' }
-  });
+export async function initializeGame(roomId = getCurrentRoomId(), playerId = getCurrentPlayerId()): Promise<GameState> {
+  const response = await postJson(roomUrl(roomId, '/init'), { playerId });
   if (!response.ok) {
     throw new Error('Failed to initialize game');
   }
   return response.json();
 }
 
-export async function joinGame(playerName: string, password: string): Promise<{ playerId: string; gameState: GameState }> {
-  const response = await fetch('/api/game/join', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ playerName, password })
-  });
+export async function joinGame(playerName: string, password: string, roomId = getCurrentRoomId()): Promise<{ playerId: string; roomId: string; gameState: GameState }> {
+  const response = await postJson(roomUrl(roomId, '/join'), { playerName, password });
   if (!response.ok) {
     const error = await response.json();
     throw new Error(error.error || 'Failed to join game');
@@ -32,12 +120,9 @@ export async function joinGame(playerName: string, password: string): Promise<{
   return response.json();
 }
 
-export async function leaveGame(playerId: string): Promise<{ success: boolean; gameState?: GameState | null }> {
-  const response = await fetch('/api/game/leave', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ playerId })
-  });
+// Give up the seat; this also signs the player out everywhere
+export async function leaveGame(playerId: string, roomId = getCurrentRoomId()): Promise<{ success: boolean; gameState?: GameState | null }> {
+  const response = await postJson(roomUrl(roomId, '/leave'), { playerId });
 
   if (!response.ok) {
     const err = await response.json().catch(() => ({}));
@@ -47,27 +132,99 @@ export async function leaveGame(playerId: string): Promise<{ success: boolean; g
   return response.json();
 }
 
+// End this browser's session; the seat is kept until the player leaves
+export async function logout(): Promise<void> {
+  const response = await fetch('/api/logout', { method: 'POST' });
+  if (!response.ok) {
+    throw new Error('Failed to log out');
+  }
+}
+
 export type UpdateResponse = { success: boolean; gameState?: GameState };
 
-export async function updateGameState(gameState: GameState): Promise<UpdateResponse> {
-  const response = await fetch('/api/game/update', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(gameState)
-  });
+// POST a player action to the room and return the resulting state as they see it
+async function postAction<T = UpdateResponse>(roomId: string, path: string, body: Record<string, unknown>, failure: string): Promise<T> {
+  const response = await postJson(roomUrl(roomId, path), body);
   if (!response.ok) {
     const err = await response.json().catch(() => ({}));
-    throw new Error(err?.error || 'Failed to update game state');
+    throw new Error(err?.error || failure);
   }
   return response.json();
 }
 
-export async function sendPreview(playerId: string, placedTiles: Array<{ row: number; col: number; letter: string; blank?: boolean }>) {
-  const response = await fetch('/api/game/preview', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ playerId, placedTiles })
-  });
+export function skipTurn(playerId: string, roomId = getCurrentRoomId()): Promise<UpdateResponse> {
+  return postAction(roomId, '/skip', { playerId }, 'Failed to skip turn');
+}
+
+// Swap rack tiles for new ones; the server draws the replacements
+export function exchangeTiles(playerId: string, letters: string[], roomId = getCurrentRoomId()): Promise<UpdateResponse> {
+  return postAction(roomId, '/exchange', { playerId, letters }, 'Failed to exchange tiles');
+}
+
+export function setPaused(playerId: string, paused: boolean, roomId = getCurrentRoomId()): Promise<UpdateResponse> {
+  return postAction(roomId, '/pause', { playerId, paused }, 'Failed to pause game');
+}
+
+export async function setAvatar(playerId: string, avatarUrl: string): Promise<{ success: boolean; avatarUrl: string }> {
+  const response = await postJson(`/api/player/${encodeURIComponent(playerId)}/avatar`, { avatarUrl });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to set avatar');
+  }
+  return response.json();
+}
+
+export function setReady(playerId: string, ready: boolean, roomId = getCurrentRoomId()): Promise<UpdateResponse> {
+  return postAction(roomId, '/ready', { playerId, ready }, 'Failed to update ready state');
+}
+
+// Take a bot out of the lobby; `playerId` is the player asking
+export function removeBot(playerId: string, botId: string, roomId = getCurrentRoomId()): Promise<{ success: boolean; gameState?: GameState | null }> {
+  return postAction(roomId, '/leave', { playerId, botId }, 'Failed to remove bot');
+}
+
+export type MoveResponse = UpdateResponse & { move?: Move };
+
+export async function submitMove(playerId: string, placedTiles: PlacedTile[], roomId = getCurrentRoomId()): Promise<MoveResponse> {
+  const response = await postJson(roomUrl(roomId, '/move'), { playerId, placedTiles });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to submit move');
+  }
+  return response.json();
+}
+
+export type ChallengeResponse = UpdateResponse & { upheld?: boolean; invalidWords?: string[] };
+
+export async function challengeMove(playerId: string, roomId = getCurrentRoomId()): Promise<ChallengeResponse> {
+  const response = await postJson(roomUrl(roomId, '/challenge'), { playerId });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to challenge move');
+  }
+  return response.json();
+}
+
+export type HintResponse = UpdateResponse & { plays?: CandidatePlay[] };
+
+// The best plays for the player's rack; each hint counts against the game's limit
+export function getHints(playerId: string, roomId = getCurrentRoomId()): Promise<HintResponse> {
+  return postAction(roomId, '/hint', { playerId }, 'Failed to get hints');
+}
+
+export type TakebackResponse = UpdateResponse & { applied?: boolean };
+
+// Ask to take back your last play; every other human player has to agree
+export function requestTakeback(playerId: string, roomId = getCurrentRoomId()): Promise<TakebackResponse> {
+  return postAction(roomId, '/takeback', { playerId }, 'Failed to request takeback');
+}
+
+export function answerTakeback(playerId: string, approve: boolean, roomId = getCurrentRoomId()): Promise<TakebackResponse> {
+  return postAction(roomId, '/takeback/answer', { playerId, approve }, 'Failed to answer takeback');
+}
+
+export async function sendPreview(playerId: string, placedTiles: Array<{ row: number; col: number; letter: string; blank?: boolean }>, roomId = getCurrentRoomId()) {
+  const response = await postJson(roomUrl(roomId, '/preview'), { playerId, placedTiles });
   if (!response.ok) {
     const err = await response.json().catch(() => ({}));
     throw new Error(err?.error || 'Failed to send preview');
@@ -75,6 +232,25 @@ export async function sendPreview(playerId: string, placedTiles: Array<{ row: nu
   return response.json();
 }
 
+export async function addBot(level: BotLevel, roomId = getCurrentRoomId(), playerId = getCurrentPlayerId()): Promise<{ success: boolean; playerId: string; gameState: GameState }> {
+  const response = await postJson(roomUrl(roomId, '/bots'), { level, playerId });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to add bot');
+  }
+  return response.json();
+}
+
+// Change match settings in the lobby (host only, before the game starts)
+export async function updateSettings(playerId: string, settings: Partial<GameSettings>, roomId = getCurrentRoomId()): Promise<UpdateResponse> {
+  const response = await postJson(roomUrl(roomId, '/settings'), { playerId, settings });
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw new Error(err?.error || 'Failed to update settings');
+  }
+  return response.json();
+}
+
 export type WordValidation = { isValid: boolean; extract?: string | null; word?: string };
 
 export async function validateWord(word: string): Promise<WordValidation> {
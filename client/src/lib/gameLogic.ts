@@ -1,4 +1,4 @@
-import { BOARD_SIZE, SPECIAL_SQUARES, TILE_VALUES, SquareType, PlacedTile, GameState, BoardCell } from "@shared/schema";
+import { BOARD_SIZE, SPECIAL_SQUARES, TILE_VALUES, SquareType, PlacedTile, GameState, Player, BoardCell, DEFAULT_GAME_SETTINGS, getGameSettings, WordScore, Move } from "@shared/schema";
 
 export function getSquareType(row: number, col: number): SquareType {
   for (const [type, positions] of Object.entries(SPECIAL_SQUARES)) {
@@ -104,7 +104,8 @@ export function extractWordsFromBoard(board: BoardCell[][], placedTiles: PlacedT
 export function calculateScore(
   words: WordInfo[], 
   board: BoardCell[][], 
-  placedTiles: PlacedTile[]
+  placedTiles: PlacedTile[],
+  bingoBonus: number = DEFAULT_GAME_SETTINGS.bingoBonus
 ): number {
   let totalScore = 0;
 
@@ -148,12 +149,58 @@ export function calculateScore(
 
   // Bonus for using all 7 tiles
   if (placedTiles.length === 7) {
-    totalScore += 50;
+    totalScore += bingoBonus;
   }
 
   return totalScore;
 }
 
+// How a word's points add up, e.g. "КОТ: (5 + 2 за буквы) × 2 = 14"
+export function describeWordScore(ws: WordScore): string {
+  let text = `${ws.base}`;
+  if (ws.letterBonus) text += ` + ${ws.letterBonus} за буквы`;
+  if (ws.wordMultiplier > 1) text = `${ws.letterBonus ? `(${text})` : text} × ${ws.wordMultiplier}`;
+  return `${ws.word}: ${text} = ${ws.score}`;
+}
+
+// Tiles left in the bag; the server sends only the count
+export function bagSize(gameState: GameState): number {
+  return gameState.bagCount ?? gameState.tileBag.length;
+}
+
+// Letters not yet seen by this player (bag and opponents' racks), e.g. "А×5 Б×2"
+export function describeUnseenTiles(gameState: GameState): string {
+  return Object.entries(gameState.unseenTiles || {})
+    .sort(([a], [b]) => (a === '?' ? 1 : b === '?' ? -1 : a.localeCompare(b, 'ru')))
+    .map(([letter, count]) => (count > 1 ? `${letter}×${count}` : letter))
+    .join(' ');
+}
+
+// One-line description of a move for replays and the spectator view
+export function describeMove(m: Move): string {
+  const hints = m.meta?.hints?.count ? ` (подсказок: ${m.meta.hints.count})` : '';
+  return describeMoveAction(m) + hints;
+}
+
+function describeMoveAction(m: Move): string {
+  switch (m.type) {
+    case 'skip':
+      return m.meta?.reason === 'timeout' ? 'время вышло' : m.meta?.reason === 'challenge_failed' ? 'пропуск (неудачное оспаривание)' : 'пропуск хода';
+    case 'exchange':
+      // Spectators are not shown which tiles went back to the bag
+      return Array.isArray(m.meta?.discarded) ? `обмен: ${m.meta.discarded.join(', ')}` : 'обмен фишек';
+    case 'challenged':
+      return `${m.words.join(', ')} — отменён после оспаривания`;
+    case 'takeback':
+      return `${m.words.join(', ')} — взят назад`;
+    case 'adjustment':
+      if (m.meta?.reason === 'hints') return 'подсказки без хода';
+      return m.meta?.reason === 'going_out_bonus' ? 'бонус за фишки соперников' : m.meta?.reason === 'overtime' ? 'штраф за превышение времени' : 'штраф за оставшиеся фишки';
+    default:
+      return m.words.join(', ');
+  }
+}
+
 export function validatePlacement(board: BoardCell[][], placedTiles: PlacedTile[]): { valid: boolean; error?: string } {
   if (placedTiles.length === 0) {
     return { valid: false, error: 'Нет размещенных фишек' };
@@ -234,3 +281,19 @@ export function validatePlacement(board: BoardCell[][], placedTiles: PlacedTile[
 
   return { valid: true };
 }
+
+// When the running turn's time stopped: the game is paused or a takeback
+// waits for answers; null while it runs
+export function clockStoppedAt(gameState: GameState): number | null {
+  if (gameState.paused && gameState.pausedAt) return gameState.pausedAt;
+  return gameState.pendingTakeback?.requestedAt ?? null;
+}
+
+// Chess-clock time left for `player` in ms, including the turn in progress
+// (negative in overtime); null when the game has no chess clock
+export function clockRemainingMs(gameState: GameState, player: Player, now = Date.now()): number | null {
+  if (!getGameSettings(gameState).totalSeconds || player.timeBankMs === undefined) return null;
+  if (gameState.currentPlayer !== player.id || !gameState.turnStart || gameState.gameEnded) return player.timeBankMs;
+  const until = clockStoppedAt(gameState) ?? now;
+  return player.timeBankMs - Math.max(0, until - gameState.turnStart);
+}
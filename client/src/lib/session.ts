@@ -1,10 +1,12 @@
 import { QueryClient } from '@tanstack/react-query';
 import { clearAuthCache } from './auth';
+import { logout } from './gameApi';
 
 export async function handleInvalidSession(queryClient?: QueryClient, options?: { navigateTo?: string }) {
   try {
-    // Clear persisted session
+    // Clear persisted session and the server-side one behind the cookie
     try { localStorage.removeItem('playerId'); localStorage.removeItem('playerName'); } catch {}
+    try { await logout(); } catch {}
 
     // Clear in-memory auth cache
     try { clearAuthCache(); } catch {}
@@ -12,8 +14,8 @@ export async function handleInvalidSession(queryClient?: QueryClient, options?:
     // Invalidate important queries so UI reflects logged-out state
     try {
       if (queryClient) {
-        // invalidate game and player-stats caches
-        try { queryClient.invalidateQueries({ queryKey: ['/api/game'] }); } catch {}
+        // invalidate room and player-stats caches
+        try { queryClient.invalidateQueries({ queryKey: ['/api/rooms'] }); } catch {}
         try { queryClient.invalidateQueries({ queryKey: ['/api/player-stats'] }); } catch {}
       }
     } catch (err) {}
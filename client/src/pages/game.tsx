@@ -1,13 +1,14 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { MOVE_TIME, Player, PlacedTile, GameState, TILE_VALUES } from '@shared/schema';
-import { getGameState, joinGame as joinGameApi, updateGameState, validateWord, sendPreview, initializeGame } from '@/lib/gameApi';
+import { MOVE_TIME, Player, PlacedTile, GameState, TILE_VALUES, getGameSettings, hintsUsed, type CandidatePlay } from '@shared/schema';
+import { getGameState, joinGame as joinGameApi, skipTurn, exchangeTiles, setPaused, submitMove, validateWord, sendPreview, initializeGame, challengeMove, getHints, requestTakeback, answerTakeback, getCurrentRoomId, setCurrentRoomId, roomGcgUrl, newerGameState, type UpdateResponse } from '@/lib/gameApi';
 import { ensureWordListLoaded, isWordLocal } from '@/lib/wordLocal';
-import { extractWordsFromBoard, calculateScore, validatePlacement } from '@/lib/gameLogic';
+import { extractWordsFromBoard, calculateScore, validatePlacement, clockRemainingMs, clockStoppedAt, describeWordScore, bagSize, describeUnseenTiles } from '@/lib/gameLogic';
 import GameBoard from '@/components/GameBoard';
 import PlayerCard from '@/components/PlayerCard';
 import TileRack from '@/components/TileRack';
 import BlankAssignDialog from '@/components/BlankAssignDialog';
+import TakebackDialog from '@/components/TakebackDialog';
 import GameTimer from '@/components/GameTimer';
 import JoinGameDialog from '@/components/JoinGameDialog';
 import ValidationMessage from '@/components/ValidationMessage';
@@ -15,10 +16,10 @@ import EndGameScreen from '@/components/EndGameScreen';
 import VoiceChat from '@/components/VoiceChat_new';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { CheckCircle, SkipForward, Sun, Moon } from 'lucide-react';
+import { CheckCircle, SkipForward, Sun, Moon, Lightbulb } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useGameChannel } from '@/hooks/use-game-channel';
 import { useLocation } from 'wouter';
-import { getStats, incrementWin, incrementLoss, getAllStats } from '@/lib/playerStats';
 
 export default function Game() {
   const [playerId, setPlayerId] = useState<string | null>(() => {
@@ -27,6 +28,7 @@ export default function Game() {
   const [isJoining, setIsJoining] = useState<boolean>(() => {
     try { return !localStorage.getItem('playerId'); } catch { return true; }
   });
+  const [roomId, setRoomId] = useState<string>(() => getCurrentRoomId());
   const [selectedTileIndex, setSelectedTileIndex] = useState<number | null>(null);
   const [discardMode, setDiscardMode] = useState(false);
   const [selectedDiscardIndices, setSelectedDiscardIndices] = useState<number[]>([]);
@@ -36,6 +38,11 @@ export default function Game() {
   const [typedSequence, setTypedSequence] = useState<Array<{ row: number; col: number; letter: string; fromRackIndex: number; blank: boolean }>>([]);
   const [blankAssign, setBlankAssign] = useState<null | { row: number; col: number; rackIndex?: number }>(null);
   const [isBlankDialogOpen, setIsBlankDialogOpen] = useState(false);
+  const [isAnsweringTakeback, setIsAnsweringTakeback] = useState(false);
+  // Plays suggested by the last hint; the chosen one is drawn on the board
+  const [hintPlays, setHintPlays] = useState<CandidatePlay[]>([]);
+  const [hintIndex, setHintIndex] = useState(0);
+  const [isHinting, setIsHinting] = useState(false);
   const [placedWordStatuses, setPlacedWordStatuses] = useState<{
     word: string;
     positions: { row: number; col: number }[];
@@ -64,7 +71,6 @@ export default function Game() {
     try { return localStorage.getItem('endScreenMinimized') === '1'; } catch { return false; }
   });
   const [, setLocation] = useLocation();
-  const statsUpdatedRef = useRef<boolean>(false);
   const lastTurnStartRef = useRef<number | null>(null);
 
   // Sync dark mode state to document and localStorage
@@ -134,15 +140,25 @@ export default function Game() {
     }
   }, [soundVolume]);
 
-  // Poll for game state
+  // Game state is pushed over the game channel; poll only while it is down
+  // (plus a slow safety refetch)
+  const { connected: liveUpdates } = useGameChannel(roomId, playerId);
   const { data: gameState, refetch } = useQuery<GameState | null>({
-    queryKey: ['/api/game'],
-    refetchInterval: 2000,
+    queryKey: ['/api/rooms', roomId],
+    queryFn: () => getGameState(roomId),
+    refetchInterval: liveUpdates ? 30000 : 2000,
     enabled: !isJoining
   });
+  const settings = getGameSettings(gameState);
+  const chessClock = settings.totalSeconds > 0;
+  const clockSecondsOf = (player: Player) => {
+    const ms = gameState ? clockRemainingMs(gameState, player) : null;
+    return ms === null ? null : Math.floor(ms / 1000);
+  };
+  const exchangeBlocked = !!gameState && (bagSize(gameState) === 0 || (bagSize(gameState) < 7 && !settings.exchangeUnderSeven));
 
   const joinMutation = useMutation({
-    mutationFn: (vars: { name: string; password: string }) => joinGameApi(vars.name, vars.password),
+    mutationFn: (vars: { name: string; password: string }) => joinGameApi(vars.name, vars.password, roomId),
     onSuccess: (data, variables) => {
       const vars = variables as { name: string; password: string };
       const name = vars.name;
@@ -154,10 +170,14 @@ export default function Game() {
       } catch (err) {
         // ignore storage errors
       }
+      if (data.roomId) {
+        setCurrentRoomId(data.roomId);
+        setRoomId(data.roomId);
+      }
       setJoinError(null);
       setIsJoining(false);
       // do not navigate away after join; keep user on the Game page
-      setTimeLeft(MOVE_TIME);
+      setTimeLeft(settings.turnSeconds);
       refetch();
     },
     onError: (error: any) => {
@@ -173,19 +193,20 @@ export default function Game() {
 
   const queryClient = useQueryClient();
 
-  const updateMutation = useMutation({
-    mutationFn: (state: GameState) => updateGameState(state),
+  // Skips, exchanges and pauses are applied by the server, which answers
+  // with the resulting state
+  const actionMutation = useMutation({
+    mutationFn: (action: () => Promise<UpdateResponse>) => action(),
     onSuccess: async (data) => {
-      console.log('[Update] Mutation successful, received authoritative state');
       if (data && data.gameState) {
-        queryClient.setQueryData(['/api/game'], data.gameState);
+        queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
       } else {
         // fallback to refetch if no state returned
         await refetch();
       }
     },
     onError: (error) => {
-      console.error('[Update] Mutation failed:', error);
+      console.error('[Action] failed:', error);
       toast({
         variant: "destructive",
         title: "Ошибка обновления",
@@ -194,112 +215,8 @@ export default function Game() {
     }
   });
 
-  // Debounced/coalescing updater for rapid changes (typing/backspace)
-  // Micro-batched patch scheduler for rapid changes (typing/backspace).
-  // We accumulate small diffs (board cell writes and rack index writes)
-  // and apply them to the latest known game state just before sending.
-  const gameStateRef = useRef<GameState | null>(null);
-  useEffect(() => { gameStateRef.current = gameState ?? null; }, [gameState]);
-
-  const pendingPatchRef = useRef<{ board: Record<string, any>; rack: Record<number, any>; timer: number | null }>({ board: {}, rack: {}, timer: null });
-  // keep a ref of placedTiles so schedulePatch can defensively ignore those keys
-  const placedTilesRef = useRef<typeof placedTiles>(placedTiles);
-  useEffect(() => { placedTilesRef.current = placedTiles; }, [placedTiles]);
   const submitMoveRef = useRef<(() => Promise<void>) | null>(null);
 
-  function schedulePatch(patch: { board?: Record<string, any>; rack?: Record<number, any> }) {
-    // merge into pending patch
-    if (patch.board) {
-      for (const k of Object.keys(patch.board)) {
-        // defensive: never include board keys that correspond to local placedTiles
-        const [rStr, cStr] = k.split(',');
-        const r = Number(rStr), c = Number(cStr);
-        const isLocal = placedTilesRef.current.some(t => t.row === r && t.col === c);
-        if (isLocal) continue; // skip local-only placed tiles
-        pendingPatchRef.current.board[k] = patch.board[k];
-      }
-    }
-
-    
-    if (patch.rack) {
-      for (const k of Object.keys(patch.rack)) pendingPatchRef.current.rack[Number(k)] = patch.rack[Number(k)];
-    }
-
-    if (pendingPatchRef.current.timer) {
-      clearTimeout(pendingPatchRef.current.timer as number);
-    }
-
-    // short debounce to micro-batch rapid keystrokes
-    pendingPatchRef.current.timer = window.setTimeout(() => {
-      const base = structuredClone(gameStateRef.current || gameState) as GameState | null;
-      if (!base) {
-        // nothing to apply to
-        pendingPatchRef.current.board = {};
-        pendingPatchRef.current.rack = {};
-        pendingPatchRef.current.timer = null;
-        return;
-      }
-
-      // apply board patches
-      for (const key of Object.keys(pendingPatchRef.current.board)) {
-        const [rStr, cStr] = key.split(',');
-        const r = Number(rStr);
-        const c = Number(cStr);
-        base.board[r][c] = pendingPatchRef.current.board[key];
-      }
-
-      // apply rack patches for current player
-      const player = base.players.find(p => p.id === playerId);
-      if (player) {
-        for (const idxStr of Object.keys(pendingPatchRef.current.rack)) {
-          const idx = Number(idxStr);
-          player.rack[idx] = pendingPatchRef.current.rack[idx];
-        }
-      }
-
-      try {
-        updateMutation.mutate(base as any);
-      } catch (err) {
-        console.error('[Scheduled Patch] failed', err);
-      }
-
-      // reset
-      pendingPatchRef.current.board = {};
-      pendingPatchRef.current.rack = {};
-      pendingPatchRef.current.timer = null;
-    }, 60);
-  }
-
-  function flushScheduledUpdate() {
-    if (pendingPatchRef.current.timer) {
-      clearTimeout(pendingPatchRef.current.timer as number);
-      const base = structuredClone(gameStateRef.current || gameState) as GameState | null;
-      if (base) {
-        for (const key of Object.keys(pendingPatchRef.current.board)) {
-          const [rStr, cStr] = key.split(',');
-          const r = Number(rStr);
-          const c = Number(cStr);
-          const isLocal = placedTilesRef.current.some(t => t.row === r && t.col === c);
-          if (isLocal) continue;
-          base.board[r][c] = pendingPatchRef.current.board[key];
-        }
-        const player = base.players.find(p => p.id === playerId);
-        if (player) {
-          for (const idxStr of Object.keys(pendingPatchRef.current.rack)) {
-            const idx = Number(idxStr);
-            player.rack[idx] = pendingPatchRef.current.rack[idx];
-          }
-        }
-        try { updateMutation.mutate(base as any); } catch (err) { console.error('[Flush Patch] failed', err); }
-      }
-      pendingPatchRef.current.board = {};
-      pendingPatchRef.current.rack = {};
-      pendingPatchRef.current.timer = null;
-    }
-  }
-
-  
-
     // Derived client-side preview state and helpers
     const getCurrentPlayer = () => gameState?.players.find(p => p.id === playerId) || null;
 
@@ -358,39 +275,23 @@ export default function Game() {
       if (clientRackState) setRackView([...clientRackState]);
     }, [clientRackState]);
 
-    // Periodically send previews to the server so other players can see our
-    // planning placements without committing them. We send every 2s while
-    // the player has local placedTiles; when there are none we clear the
-    // preview on the server for this player.
+    // Send our planning placements to the server whenever they change so
+    // other players see them (the server pushes them out over the game
+    // channel); an empty list clears the preview for this player.
     useEffect(() => {
-      let stopped = false;
       if (!playerId) return;
-      const send = async () => {
-        try {
-          // Only send when we have placed tiles (or to clear them)
-          await sendPreview(playerId, placedTiles.map(t => ({ row: t.row, col: t.col, letter: t.letter, blank: !!t.blank })));
-        } catch (err) {
-          // ignore network errors for now
-        }
-      };
-
-      // Send immediately once, then every 2s while placedTiles exist
-      let interval: number | null = null;
-      (async () => {
-        await send();
-        if (stopped) return;
-        interval = window.setInterval(() => { send(); }, 2000) as unknown as number;
-      })();
+      sendPreview(playerId, placedTiles.map(t => ({ row: t.row, col: t.col, letter: t.letter, blank: !!t.blank })), roomId).catch(() => {
+        // ignore network errors for now
+      });
+    }, [playerId, placedTiles]);
 
+    // On unmount ensure the server preview is cleared for this player
+    useEffect(() => {
+      if (!playerId) return;
       return () => {
-        stopped = true;
-        if (interval) clearInterval(interval as number);
-        // On unmount/cleanup ensure server preview is cleared for this player
-        (async () => {
-          try { await sendPreview(playerId, []); } catch (err) { /* ignore */ }
-        })();
+        sendPreview(playerId, [], roomId).catch(() => { /* ignore */ });
       };
-    }, [playerId, placedTiles]);
+    }, [playerId, roomId]);
 
     // Compute last move positions (server authoritative) to highlight those tiles
     const lastMovePositions = useMemo(() => {
@@ -444,7 +345,7 @@ export default function Game() {
           const statuses = words.map((w, i) => ({ word: w.word, positions: w.positions, status: results[i] ? 'valid' : 'invalid' }));
           setPlacedWordStatuses(statuses as any);
           if (results.every(Boolean)) {
-            const score = calculateScore(words, board, placedTiles);
+            const score = calculateScore(words, board, placedTiles, settings.bingoBonus);
             setPotentialScore(score);
           } else {
             setPotentialScore(null);
@@ -479,11 +380,21 @@ export default function Game() {
     setPreviousCurrentPlayer(gameState.currentPlayer);
   }, [gameState?.currentPlayer, previousCurrentPlayer]);
 
+  // Tell the player when the server ended their turn because time ran out
+  const lastMove = gameState?.moves?.[gameState.moves.length - 1];
+  useEffect(() => {
+    if (!lastMove || lastMove.playerId !== playerId || lastMove.meta?.reason !== 'timeout') return;
+    // Only fresh timeouts, not ones already in the history when the page loads
+    if (Date.now() - lastMove.timestamp > 10000) return;
+    const penalty = lastMove.meta?.penalty;
+    toast({ variant: 'destructive', title: 'Время вышло', description: penalty ? `Ход пропущен, штраф −${penalty} очков` : 'Ход пропущен' });
+  }, [lastMove?.timestamp, lastMove?.playerId]);
+
   // Play win/lose sound when game ends
   useEffect(() => {
     if (!gameState || !playerId || !gameState.gameEnded || hasPlayedEndGameSound) return;
 
-    const isWinner = gameState.winnerId === playerId;
+    const isWinner = gameState.winnerId === playerId || !!gameState.winnerIds?.includes(playerId);
     if (isWinner) {
       playSound('win.mp3');
     } else {
@@ -491,32 +402,23 @@ export default function Game() {
     }
     setHasPlayedEndGameSound(true);
 
-    // Update local player stats once per finished game
-    try {
-      if (!statsUpdatedRef.current) {
-        const winnerId = gameState.winnerId;
-        if (winnerId) incrementWin(winnerId);
-        for (const p of gameState.players) {
-          if (p.id !== winnerId) incrementLoss(p.id);
-        }
-        statsUpdatedRef.current = true;
-      }
-    } catch (err) {
-      // ignore stats update errors
-    }
+    // The server has archived the finished game; drop cached stats and history
+    queryClient.invalidateQueries({ queryKey: ['/api/player-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/games'] });
   }, [gameState?.gameEnded, gameState?.winnerId, playerId, hasPlayedEndGameSound]);
 
   // Show end-screen overlay when game ends; allow local dismissal
   useEffect(() => {
     if (!gameState) return;
     if (gameState.gameEnded) setShowEndScreen(true);
-    else {
-      setShowEndScreen(false);
-      // reset per-game stats update marker so next end will update stats again
-      statsUpdatedRef.current = false;
-    }
+    else setShowEndScreen(false);
   }, [gameState?.gameEnded]);
 
+  // Hints are for the turn they were asked on
+  useEffect(() => {
+    setHintPlays([]);
+  }, [gameState?.turn, gameState?.gameId]);
+
   // Background auto-start removed: host should explicitly start from the Lobby page.
 
   // Persist and handle minimize state for the end-screen overlay.
@@ -566,17 +468,22 @@ export default function Game() {
       return;
     }
 
-    // Compute remaining based on server `turnStart` and `pausedAt` when paused
+    // Compute remaining based on server `turnStart`, stopped at a pause or a pending takeback
+    const stoppedAt = clockStoppedAt(gameState);
     const computeRemainingAt = (nowMs: number) => {
+      // Chess clock: the current player's whole time bank (negative in overtime)
+      const current = gameState.players.find(p => p.id === gameState.currentPlayer);
+      const bankMs = current ? clockRemainingMs(gameState, current, nowMs) : null;
+      if (bankMs !== null) return Math.floor(bankMs / 1000);
       const startMs = (typeof gameState.turnStart === 'number' && gameState.turnStart) ? gameState.turnStart : (lastTurnStartRef.current ?? nowMs);
-      // if paused, use pausedAt as the reference moment to compute elapsed
-      const refMs = (gameState.paused && typeof gameState.pausedAt === 'number' && gameState.pausedAt) ? gameState.pausedAt : nowMs;
+      // while stopped, elapsed time is counted up to the stop
+      const refMs = stoppedAt ?? nowMs;
       const elapsed = Math.floor((refMs - startMs) / 1000);
-      return Math.max(0, MOVE_TIME - elapsed);
+      return Math.max(0, settings.turnSeconds - elapsed);
     };
 
-    // If paused, set a static remaining and don't start ticking
-    if (gameState.paused) {
+    // If stopped, set a static remaining and don't start ticking
+    if (stoppedAt !== null) {
       const remaining = computeRemainingAt(Date.now());
       setTimeLeft(remaining);
       return;
@@ -597,17 +504,13 @@ export default function Game() {
         }
         return remaining;
       });
-
-      if (remaining <= 0 && gameState.currentPlayer === playerId) {
-        handleSkipTurn();
-        // don't manipulate lastTurnStartRef — server will provide authoritative state
-      }
+      // When time runs out the server ends the turn itself and pushes the new state
     };
 
     tick();
     const id = setInterval(tick, 1000);
     return () => { cancelled = true; clearInterval(id); };
-  }, [gameState?.gameEnded, gameState?.paused, gameState?.pausedAt, gameState?.turnStart, gameState?.currentPlayer, playerId, hasPlayed20SecSound]);
+  }, [gameState?.gameEnded, gameState?.paused, gameState?.pausedAt, gameState?.pendingTakeback?.requestedAt, gameState?.turnStart, gameState?.currentPlayer, playerId, hasPlayed20SecSound, settings.turnSeconds]);
 
   // Note: server now manages `pausedAt` and `turnStart`; client relies on those fields.
 
@@ -633,13 +536,6 @@ export default function Game() {
     return () => window.removeEventListener('keydown', onKey);
   }, [gameState?.gameEnded, showEndScreenMinimized]);
 
-  const shuffleArray = (array: string[]) => {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
-    }
-  };
-
   const handleJoinGame = (name: string, password: string) => {
     setJoinError(null);
     joinMutation.mutate({ name, password });
@@ -1045,45 +941,11 @@ export default function Game() {
       toast({ variant: 'destructive', title: 'Игра приостановлена', description: 'Нельзя изменять состояние во время паузы' });
       return;
     }
-    const currentPlayer = getCurrentPlayer();
-    if (!currentPlayer) return;
-
-    const newState = structuredClone(gameState);
-    const newPlayer = newState.players.find(p => p.id === playerId);
-    if (!newPlayer) return;
-
-    // Return placed tiles to player's rack. Prefer to return to the original
-    // rack index recorded in typedSequence (fromRackIndex). If that isn't
-    // available, put into the first `null` slot. As a last resort overwrite the
-    // first slot to avoid losing tiles.
-    for (const placed of placedTiles) {
-      const { row, col, letter, blank } = placed as any;
-      newState.board[row][col] = null;
-
-      // try find typedSequence entry for this placed tile
-      const typed = typedSequence.find(t => t.row === row && t.col === col && typeof t.fromRackIndex === 'number');
-      if (typed && typeof typed.fromRackIndex === 'number') {
-        const idx = typed.fromRackIndex;
-        if (idx >= 0 && idx < newPlayer.rack.length) {
-          newPlayer.rack[idx] = typed.blank ? '?' : typed.letter;
-          continue;
-        }
-      }
-
-      const emptyIndex = newPlayer.rack.findIndex(t => t === null);
-      if (emptyIndex !== -1) {
-        newPlayer.rack[emptyIndex] = blank ? '?' : letter;
-        continue;
-      }
-
-      // last resort: overwrite first slot to avoid dropping the tile entirely
-      newPlayer.rack[0] = blank ? '?' : letter;
-    }
-
+    // Placed tiles only live on this client until the play is submitted;
+    // dropping them puts them back on the rack (see clientRackState)
     setPlacedTiles([]);
     setTypedSequence([]);
     setSelectedTileIndex(null);
-    await updateMutation.mutateAsync(newState);
   };
 
   const handleSubmitMove = async () => {
@@ -1128,87 +990,20 @@ export default function Game() {
         return;
       }
 
-      // Validate all words
-      const validationResults = await Promise.all(
-        words.map(async ({ word }) => {
-          const r = await validateWord(word.toLowerCase());
-          return { word, valid: r.isValid };
-        })
-      );
-
-      const invalidWords = validationResults.filter(r => !r.valid);
-
-      if (invalidWords.length > 0) {
-        setValidationMessage(`Недопустимые слова: ${invalidWords.map(w => w.word).join(', ')}`);
-        setIsError(true);
-        setIsValidating(false);
-        
-        // Return tiles to rack after a delay
-        setTimeout(() => {
-          handleRecall();
-          setValidationMessage('');
-          setIsError(false);
-        }, 3000);
-        
-        return;
-      }
-
-      setValidationMessage(`Валидные слова: ${validationResults.map(r => r.word).join(', ')}`);
-
-      // Calculate score using client board state
-      const boardForScore = clientBoardState || gameState.board;
-      const score = calculateScore(words, boardForScore, placedTiles);
-      
-      const newState = structuredClone(gameState);
-      const currentPlayer = newState.players.find(p => p.id === playerId);
-      if (!currentPlayer) return;
-
-      // Apply placed tiles to board state before sending to server
-      placedTiles.forEach(tile => {
-        newState.board[tile.row][tile.col] = { letter: tile.letter, blank: !!tile.blank } as any;
-      });
-
-      // Remove placed tiles from rack
-      typedSequence.forEach(t => {
-        if (t.fromRackIndex >= 0 && t.fromRackIndex < currentPlayer.rack.length) {
-          currentPlayer.rack[t.fromRackIndex] = null;
-        }
-      });
-
-      currentPlayer.score += score;
-
-      // Refill rack
-      for (let i = 0; i < currentPlayer.rack.length; i++) {
-        if (currentPlayer.rack[i] === null && newState.tileBag.length > 0) {
-          currentPlayer.rack[i] = newState.tileBag.shift() || null;
-        }
+      // Dictionary checks happen on the server (per its dictionary policy),
+      // which also scores the play and refills the rack; we only send the
+      // tiles we put down.
+      const data = await submitMove(pid, placedTiles.map(t => ({ row: t.row, col: t.col, letter: t.letter, blank: !!t.blank })), roomId);
+      if (data && data.gameState) {
+        queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
+      } else {
+        await refetch();
       }
 
-      // Move to next player
-      const currentIndex = newState.players.findIndex(p => p.id === playerId);
-      const nextIndex = (currentIndex + 1) % newState.players.length;
-      newState.currentPlayer = newState.players[nextIndex].id;
-      newState.turn += 1;
-
-      // Append move to history
-      newState.moves = newState.moves || [];
-      newState.moves.push({
-        playerId: pid,
-        playerName: currentPlayer.name,
-        words: validationResults.map(r => r.word),
-        score,
-        turn: newState.turn,
-        timestamp: Date.now(),
-        type: 'play',
-        meta: { placedTiles }
-      });
-
-      await updateMutation.mutateAsync(newState);
-
       setPlacedTiles([]);
       setTypedSequence([]);
       setSelectedTileIndex(null);
-      setTimeLeft(MOVE_TIME);
+      setTimeLeft(settings.turnSeconds);
       setIsValidating(false);
 
       setTimeout(() => {
@@ -1216,7 +1011,7 @@ export default function Game() {
         setIsError(false);
       }, 3000);
     } catch (error) {
-      setValidationMessage('Ошибка при проверке слов');
+      setValidationMessage(error instanceof Error ? error.message : 'Ошибка при проверке слов');
       setIsError(true);
       setIsValidating(false);
       setTimeout(() => {
@@ -1239,37 +1034,10 @@ export default function Game() {
     if (!pid) return;
 
     // Return tiles to rack first if any placed
-    if (placedTiles.length > 0) {
-      await handleRecall();
-      // Refetch to get updated state after recall
-      await refetch();
-    }
+    if (placedTiles.length > 0) await handleRecall();
 
-    // Get fresh state and advance turn
-    const freshState = await refetch();
-    if (!freshState.data) return;
-
-    const newState = structuredClone(freshState.data);
-    const currentIndex = newState.players.findIndex(p => p.id === playerId);
-    const nextIndex = (currentIndex + 1) % newState.players.length;
-    newState.currentPlayer = newState.players[nextIndex].id;
-    newState.turn += 1;
-    // Append skip entry to history
-    newState.moves = newState.moves || [];
-    const skipPlayer = newState.players.find(p => p.id === playerId);
-    newState.moves.push({
-      playerId: pid,
-      playerName: skipPlayer?.name || '',
-      words: [],
-      score: 0,
-      turn: newState.turn,
-      timestamp: Date.now(),
-      type: 'skip',
-      meta: null
-    });
-
-    await updateMutation.mutateAsync(newState);
-    setTimeLeft(MOVE_TIME);
+    await actionMutation.mutateAsync(() => skipTurn(pid, roomId));
+    setTimeLeft(settings.turnSeconds);
   };
 
   const handleStartDiscard = () => {
@@ -1285,12 +1053,7 @@ export default function Game() {
 
   const handleConfirmDiscard = async () => {
     // If tiles were placed this turn, recall them first so the exchange acts on rack tiles
-    if (placedTiles.length > 0) {
-      await handleRecall();
-      // refetch to ensure we operate on fresh state
-      const refreshed = await refetch();
-      if (!refreshed.data) return;
-    }
+    if (placedTiles.length > 0) await handleRecall();
 
     if (!gameState || gameState.currentPlayer !== playerId) return;
     if (gameState.paused) {
@@ -1303,67 +1066,19 @@ export default function Game() {
     if (!currentPlayer) return;
     if (selectedDiscardIndices.length === 0) return;
 
-    // Work on the latest state snapshot
-    const fresh = await getGameState();
-    const newState = structuredClone(fresh || gameState);
-    const newPlayer = newState.players.find(p => p.id === playerId);
-    if (!newPlayer) return;
-
-    // Collect discarded letters and empty the selected slots
-    const discarded: string[] = [];
-    // sort indices so assignment is deterministic
-    const indices = [...selectedDiscardIndices].sort((a, b) => a - b);
-    for (const idx of indices) {
-      const letter = newPlayer.rack[idx];
-      if (letter !== null) {
-        discarded.push(letter);
-        newPlayer.rack[idx] = null;
-      }
-    }
-
-    // Draw replacements first (so discarded tiles are not immediately drawn back)
-    for (const idx of indices) {
-      if (newState.tileBag.length > 0) {
-        newPlayer.rack[idx] = newState.tileBag.shift() || null;
-      } else {
-        newPlayer.rack[idx] = null;
-      }
-    }
-
-    // Now return discarded tiles to the bag and shuffle for future draws
-    if (discarded.length > 0) {
-      newState.tileBag.push(...discarded);
-      shuffleArray(newState.tileBag);
-    }
-
-    // Advance turn
-    const currentIndex = newState.players.findIndex(p => p.id === playerId);
-    const nextIndex = (currentIndex + 1) % newState.players.length;
-    newState.currentPlayer = newState.players[nextIndex].id;
-    newState.turn += 1;
+    // The server swaps the tiles and draws the replacements from the bag
+    const discarded = selectedDiscardIndices
+      .map(idx => currentPlayer.rack[idx])
+      .filter((letter): letter is string => !!letter);
 
     try {
-      // Append exchange entry to history
-      newState.moves = newState.moves || [];
-      const exchPlayer = newState.players.find(p => p.id === playerId);
-      newState.moves.push({
-        playerId: pid,
-        playerName: exchPlayer?.name || '',
-        words: [],
-        score: 0,
-        turn: newState.turn,
-        timestamp: Date.now(),
-        type: 'exchange',
-        meta: { discarded }
-      });
-
-      await updateMutation.mutateAsync(newState);
+      await actionMutation.mutateAsync(() => exchangeTiles(pid, discarded, roomId));
       setDiscardMode(false);
       setSelectedDiscardIndices([]);
       setSelectedTileIndex(null);
       setPlacedTiles([]);
       setTypedSequence([]);
-      setTimeLeft(MOVE_TIME);
+      setTimeLeft(settings.turnSeconds);
     } catch (err) {
       // keep discard mode open on error
       console.error('[Discard] failed', err);
@@ -1374,24 +1089,69 @@ export default function Game() {
   const handleTogglePause = async () => {
     if (!playerId || !gameState) return;
     try {
-      const fresh = await getGameState();
-      const newState = structuredClone(fresh || gameState) as GameState;
-      const wasPaused = !!newState.paused;
-      // Toggle pause and set server-side pausedAt timestamp when pausing.
-      newState.paused = !wasPaused;
-      newState.pausedBy = newState.paused ? playerId : null;
-      if (newState.paused) {
-        newState.pausedAt = Date.now();
+      // The server records when the pause began and, on resume, moves the
+      // turn start forward by its length
+      const paused = !gameState.paused;
+      await actionMutation.mutateAsync(() => setPaused(playerId, paused, roomId));
+      toast({ title: paused ? 'Игра приостановлена' : 'Игра возобновлена' });
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Ошибка', description: 'Не удалось изменить состояние паузы' });
+      console.error('[Pause] failed', err);
+    }
+  };
+
+  const handleChallenge = async () => {
+    if (!playerId) return;
+    try {
+      const data = await challengeMove(playerId, roomId);
+      if (data.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
+      if (data.upheld) {
+        toast({ title: 'Ход отменён', description: `Нет в словаре: ${(data.invalidWords || []).join(', ')}` });
       } else {
-        // server will adjust turnStart when processing resume; clear pausedAt
-        newState.pausedAt = null;
+        toast({ variant: 'destructive', title: 'Слова допустимы', description: 'Оспаривание не удалось' });
       }
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Ошибка', description: err instanceof Error ? err.message : 'Не удалось оспорить ход' });
+    }
+  };
 
-      await updateMutation.mutateAsync(newState);
-      toast({ title: newState.paused ? 'Игра приостановлена' : 'Игра возобновлена' });
+  const handleHint = async () => {
+    if (!playerId) return;
+    setIsHinting(true);
+    try {
+      const data = await getHints(playerId, roomId);
+      if (data.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
+      setHintPlays(data.plays || []);
+      setHintIndex(0);
+      if (!data.plays?.length) toast({ title: 'Подсказка', description: 'С этими фишками нет ни одного хода' });
     } catch (err) {
-      toast({ variant: 'destructive', title: 'Ошибка', description: 'Не удалось изменить состояние паузы' });
-      console.error('[Pause] failed', err);
+      toast({ variant: 'destructive', title: 'Ошибка', description: err instanceof Error ? err.message : 'Не удалось получить подсказку' });
+    } finally {
+      setIsHinting(false);
+    }
+  };
+
+  const handleRequestTakeback = async () => {
+    if (!playerId) return;
+    try {
+      const data = await requestTakeback(playerId, roomId);
+      if (data.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
+      toast(data.applied ? { title: 'Ход взят назад' } : { title: 'Запрос отправлен', description: 'Ждём согласия соперников' });
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Ошибка', description: err instanceof Error ? err.message : 'Не удалось отменить ход' });
+    }
+  };
+
+  const handleAnswerTakeback = async (approve: boolean) => {
+    if (!playerId) return;
+    setIsAnsweringTakeback(true);
+    try {
+      const data = await answerTakeback(playerId, approve, roomId);
+      if (data.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Ошибка', description: err instanceof Error ? err.message : 'Не удалось ответить на запрос' });
+    } finally {
+      setIsAnsweringTakeback(false);
     }
   };
 
@@ -1401,6 +1161,13 @@ export default function Game() {
   };
 
   const isCurrentPlayer = gameState?.currentPlayer === playerId;
+  const hintsLeft = gameState && playerId ? Math.max(0, settings.hintLimit - hintsUsed(gameState, playerId)) : 0;
+
+  // An opponent asked to take their last play back and still needs our consent
+  const takeback = gameState?.pendingTakeback;
+  const takebackRequester = takeback ? gameState?.players.find(p => p.id === takeback.playerId) : undefined;
+  const askTakeback = !!takeback && !!playerId && takeback.playerId !== playerId && !takeback.approvedBy.includes(playerId)
+    && !!gameState?.players.some(p => p.id === playerId) && !gameState?.gameEnded;
 
   return (
     <div className="min-h-screen bg-background">
@@ -1412,12 +1179,21 @@ export default function Game() {
       <JoinGameDialog
         open={isJoining}
         playerCount={gameState?.players.length || 0}
+        maxPlayers={settings.maxPlayers}
         onJoin={handleJoinGame}
         defaultName={typeof window !== 'undefined' ? localStorage.getItem('playerName') || undefined : undefined}
         error={joinError}
         isLoading={(joinMutation as any).isLoading}
       />
       <BlankAssignDialog open={isBlankDialogOpen} defaultValue={''} onConfirm={handleConfirmBlank} onCancel={handleCancelBlank} />
+      <TakebackDialog
+        open={askTakeback}
+        playerName={takebackRequester?.name ?? ''}
+        words={takeback?.words ?? []}
+        isLoading={isAnsweringTakeback}
+        onApprove={() => handleAnswerTakeback(true)}
+        onDecline={() => handleAnswerTakeback(false)}
+      />
 
       {!isJoining && gameState && (
         <>
@@ -1433,13 +1209,14 @@ export default function Game() {
                 setShowEndScreen(false);
                 setShowEndScreenMinimized(true);
               }}
+              onReplay={gameState.gameId ? () => setLocation(`/replay/${gameState.gameId}`) : undefined}
               onNewGame={() => {
                 // Navigate back to lobby page
                 try { setLocation('/lobby'); } catch {}
                 setShowEndScreen(false);
                 setShowEndScreenMinimized(false);
                 setHasPlayedEndGameSound(false);
-                setTimeLeft(MOVE_TIME);
+                setTimeLeft(settings.turnSeconds);
                 lastTurnStartRef.current = Date.now();
                 try { refetch(); } catch {}
                 toast({ title: 'Возврат в лобби' });
@@ -1474,6 +1251,7 @@ export default function Game() {
                   player={player}
                   isCurrentPlayer={player.id === gameState.currentPlayer}
                   playerIndex={index}
+                  clockSeconds={clockSecondsOf(player)}
                   voiceMuted={voicePeerState.peerMuted[player.id]}
                   voiceVolume={voicePeerState.peerVolumes[player.id]}
                   voiceLevel={voicePeerState.levels[player.id]}
@@ -1484,7 +1262,7 @@ export default function Game() {
               ))}
             </div>
             {/* Voice chat controls (global + background component) */}
-            {playerId && <div className="mt-2"><VoiceChat playerId={playerId} voiceVolume={voiceVolume} playerNames={Object.fromEntries((gameState.players||[]).map(p => [p.id, p.name]))} /></div>}
+            {playerId && <div className="mt-2"><VoiceChat playerId={playerId} roomId={roomId} voiceVolume={voiceVolume} playerNames={Object.fromEntries((gameState.players||[]).map(p => [p.id, p.name]))} /></div>}
             {/* Global sound & voice controls in one themed row */}
             <div className="mt-2">
               <div className="flex items-center gap-3">
@@ -1538,9 +1316,20 @@ export default function Game() {
               </div>
             </div>
             <div className="mt-4">
-              <h2 className="text-lg font-semibold">История ходов</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">История ходов</h2>
+                <a href={roomGcgUrl(roomId)} download className="text-xs text-primary underline" data-testid="link-export-gcg">Скачать GCG</a>
+              </div>
               <div className="mt-2 flex flex-col gap-2 max-h-[30vh] overflow-auto history-scroll">
-                {(gameState.moves || []).slice().reverse().map((m, idx) => (
+                {(gameState.moves || []).slice().reverse().map((m, idx) => {
+                  const moveIndex = (gameState.moves || []).length - 1 - idx;
+                  const pending = gameState.pendingChallenge;
+                  const canChallenge = !!pending && pending.moveIndex === moveIndex && pending.playerId !== playerId
+                    && !gameState.paused && (!pending.expiresAt || Date.now() < pending.expiresAt);
+                  // Only the latest move can be taken back, by the player who made it
+                  const canTakeBack = idx === 0 && m.type === 'play' && m.playerId === playerId && !gameState.gameEnded && !gameState.paused;
+                  const takebackPending = canTakeBack && gameState.pendingTakeback?.moveIndex === moveIndex;
+                  return (
                   <div key={`${m.playerId}-${m.timestamp}-${idx}`} className="p-2 rounded border bg-card">
                     <div className="flex items-center justify-between">
                       <div className="font-medium">{m.playerName}</div>
@@ -1548,30 +1337,73 @@ export default function Game() {
                     </div>
                     <div className="text-sm text-muted-foreground">
                       {m.type === 'skip' ? (
-                        <span className="italic">Пропуск хода</span>
+                        <span className="italic">{m.meta?.reason === 'challenge_failed' ? 'Пропуск хода (неудачное оспаривание)' : m.meta?.reason === 'timeout' ? 'Время вышло' : 'Пропуск хода'}</span>
+                      ) : m.type === 'adjustment' ? (
+                        <span>
+                          {m.meta?.reason === 'hints' ? 'Подсказки без хода' : m.meta?.reason === 'going_out_bonus' ? 'Бонус за фишки соперников' : m.meta?.reason === 'overtime' ? `Штраф за превышение времени: ${m.meta.minutes} мин` : 'Штраф за оставшиеся фишки'}
+                          {Array.isArray(m.meta?.tiles) && m.meta.tiles.length > 0 ? `: ${m.meta.tiles.join(', ')}` : ''}
+                        </span>
+                      ) : m.type === 'challenged' ? (
+                        <span><span className="line-through">{m.words.join(', ')}</span> — ход отменён после оспаривания</span>
+                      ) : m.type === 'takeback' ? (
+                        <span><span className="line-through">{m.words.join(', ')}</span> — ход взят назад с согласия соперников</span>
                       ) : m.type === 'exchange' ? (
-                        <span>Обмен фишек: {(m.meta?.discarded || []).join(', ')}</span>
+                        <span>{Array.isArray(m.meta?.discarded) ? `Обмен фишек: ${m.meta.discarded.join(', ')}` : 'Обмен фишек'}</span>
                       ) : (
                         <span>
-                          {m.words.map((word, wordIdx) => (
-                            <span key={wordIdx}>
-                              <a
-                                href={`https://ru.wiktionary.org/wiki/${encodeURIComponent(word.toLowerCase())}`}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-primary underline hover:text-primary/80 cursor-pointer"
-                              >
-                                {word}
-                              </a>
-                              {wordIdx < m.words.length - 1 && ', '}
-                            </span>
-                          ))}
+                          {m.words.map((word, wordIdx) => {
+                            const ws = m.wordScores?.[wordIdx];
+                            return (
+                              <span key={wordIdx}>
+                                <a
+                                  href={`https://ru.wiktionary.org/wiki/${encodeURIComponent(word.toLowerCase())}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  title={ws ? describeWordScore(ws) : undefined}
+                                  className="text-primary underline hover:text-primary/80 cursor-pointer"
+                                >
+                                  {word}
+                                </a>
+                                {ws && <span className="text-xs"> ({ws.score})</span>}
+                                {wordIdx < m.words.length - 1 && ', '}
+                              </span>
+                            );
+                          })}
+                          {m.bingo ? <span className="text-xs"> + {m.bingo} за все 7 фишек</span> : null}
                         </span>
                       )}
                     </div>
-                    <div className="text-sm font-semibold mt-1">{m.type === 'play' ? `+${m.score} очков` : m.type === 'exchange' ? `Обмен (${(m.meta?.discarded || []).length} ф.)` : 'Пропуск'}</div>
+                    {(m.meta?.flagged || m.type === 'challenged') && Array.isArray(m.meta?.invalidWords) && (
+                      <div className="text-xs text-amber-700 dark:text-amber-400">Нет в словаре: {m.meta.invalidWords.join(', ')}</div>
+                    )}
+                    {m.meta?.hints && (
+                      <div className="text-xs text-muted-foreground" data-testid="text-move-hints">
+                        Подсказок: {m.meta.hints.count}{m.meta.hints.penalty ? ` (−${m.meta.hints.penalty} очков)` : ''}
+                      </div>
+                    )}
+                    {m.meta?.challenge && !m.meta.challenge.upheld && (
+                      <div className="text-xs text-muted-foreground">
+                        Оспорено безуспешно{m.meta.challenge.penalty ? ` (−${m.meta.challenge.penalty} очков)` : ''}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between mt-1">
+                      <div className="text-sm font-semibold">{m.type === 'play' ? `+${m.score} очков` : m.type === 'adjustment' ? (m.meta?.reason === 'hints' ? '' : `${m.score > 0 ? '+' : '−'}${Math.abs(m.score)} очков`) : m.type === 'challenged' ? 'Отменён' : m.type === 'takeback' ? 'Взят назад' : m.type === 'exchange' ? (Array.isArray(m.meta?.discarded) ? `Обмен (${m.meta.discarded.length} ф.)` : 'Обмен') : m.meta?.penalty ? `−${m.meta.penalty} очков` : 'Пропуск'}</div>
+                      {canChallenge && (
+                        <button onClick={handleChallenge} className="px-2 py-0.5 text-xs rounded border border-amber-500 text-amber-700 hover:bg-amber-50 dark:text-amber-400" data-testid="button-challenge">
+                          Оспорить
+                        </button>
+                      )}
+                      {takebackPending ? (
+                        <span className="text-xs text-muted-foreground" data-testid="text-takeback-pending">Ждём согласия соперников…</span>
+                      ) : canTakeBack && (
+                        <button onClick={handleRequestTakeback} className="px-2 py-0.5 text-xs rounded border hover:bg-muted/10" data-testid="button-takeback">
+                          Взять назад
+                        </button>
+                      )}
+                    </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </aside>
@@ -1589,6 +1421,7 @@ export default function Game() {
                 typingCursor={typingCursor}
                 placedWordStatuses={placedWordStatuses}
                 lastMovePositions={lastMovePositions}
+                hintTiles={hintPlays[hintIndex]?.tiles}
                 previews={gameState?.previews || {}}
                 onSquareClick={handleSquareClick}
                 onTileDrop={async (row: number, col: number, data: any) => {
@@ -1728,7 +1561,11 @@ export default function Game() {
             {(//isCurrentPlayer && (
               <>
                 <div className="flex items-center justify-between gap-2">
-                  <GameTimer timeLeft={timeLeft} totalTime={MOVE_TIME} />
+                  <GameTimer
+                    timeLeft={timeLeft}
+                    totalTime={chessClock ? settings.totalSeconds : settings.turnSeconds}
+                    label={chessClock ? gameState.players.find(p => p.id === gameState.currentPlayer)?.name : undefined}
+                  />
                   <div className="flex items-center gap-2">
                     <button
                       onClick={() => setIsDark(prev => !prev)}
@@ -1745,7 +1582,10 @@ export default function Game() {
                 </div>
                 {gameState && (
                   <div className="text-sm text-muted-foreground">
-                    Фишек в мешке: <span className="font-semibold">{gameState.tileBag.length}</span>
+                    Фишек в мешке: <span className="font-semibold">{bagSize(gameState)}</span>
+                    {gameState.unseenTiles && (
+                      <div className="text-xs" data-testid="text-unseen-tiles">Ещё не вышли: {describeUnseenTiles(gameState)}</div>
+                    )}
                   </div>
                 )}
 
@@ -1845,6 +1685,33 @@ export default function Game() {
                     // Disable interactions when the game has ended
                     canInteract={!isJoining && !gameState?.gameEnded}
                   />
+                  {settings.hintLimit > 0 && (
+                    <div className="mt-2 flex flex-col gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleHint}
+                        disabled={!isCurrentPlayer || hintsLeft === 0 || isHinting || !!gameState?.paused || !!gameState?.gameEnded}
+                        data-testid="button-hint"
+                      >
+                        <Lightbulb className="w-4 h-4 mr-2" />
+                        Подсказка (осталось {hintsLeft}{settings.hintPenalty ? `, −${settings.hintPenalty} очков` : ''})
+                      </Button>
+                      {hintPlays.map((play, i) => (
+                        <button
+                          key={i}
+                          onClick={() => setHintIndex(i)}
+                          className={`px-2 py-1 text-sm rounded border text-left ${i === hintIndex ? 'border-amber-500 bg-amber-50 dark:bg-amber-950' : 'hover:bg-muted/10'}`}
+                          data-testid={`button-hint-play-${i}`}
+                        >
+                          {play.words.join(', ')} — {play.score} очков
+                        </button>
+                      ))}
+                      {hintPlays.length > 0 && (
+                        <button onClick={() => setHintPlays([])} className="text-xs text-muted-foreground underline self-start">Скрыть подсказку</button>
+                      )}
+                    </div>
+                  )}
                 </div>
                   <div className="flex flex-col gap-2">
                     {!discardMode ? (
@@ -1874,10 +1741,10 @@ export default function Game() {
                           variant="outline"
                           size="lg"
                           onClick={handleStartDiscard}
-                          disabled={isValidating || !!gameState?.gameEnded || (gameState && gameState.tileBag.length === 0)}
+                          disabled={isValidating || !!gameState?.gameEnded || exchangeBlocked}
                           className="w-full"
                           data-testid="button-swap"
-                          title={gameState && gameState.tileBag.length === 0 ? 'Нельзя обменивать фишки: мешок пуст' : ''}
+                          title={!exchangeBlocked ? '' : gameState && bagSize(gameState) === 0 ? 'Нельзя обменивать фишки: мешок пуст' : 'Нельзя обменивать фишки: в мешке меньше 7'}
                         >
                           Обменять фишки и пропустить
                         </Button>
@@ -2,11 +2,16 @@ import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import VoiceChat from '@/components/VoiceChat_new';
-import { getGameState, updateGameState, leaveGame } from '@/lib/gameApi';
+import { getGameState, setReady, leaveGame, logout, removeBot, listRooms, createRoom, getCurrentRoomId, setCurrentRoomId, getCurrentPlayerId, addBot, updateSettings, setAvatar, newerGameState } from '@/lib/gameApi';
+import { getGameSettings, type BotLevel, type GameSettings, type PlayerStats, type RoomSummary } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
-import { getStats } from '@/lib/playerStats';
+import { useGameChannel } from '@/hooks/use-game-channel';
 import JoinGameDialog from '@/components/JoinGameDialog';
+import GameSettingsPanel from '@/components/GameSettingsPanel';
+import GameHistory from '@/components/GameHistory';
 import handleInvalidSession from '@/lib/session';
 import { joinGame as joinGameApi } from '@/lib/gameApi';
 
@@ -14,17 +19,22 @@ export default function Lobby() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [location, setLocation] = useLocation();
+  const [roomId, setRoomId] = useState<string>(() => getCurrentRoomId());
 
+  // Joins, leaves and ready changes are pushed over the game channel; poll
+  // only while it is down
+  const { connected: liveUpdates } = useGameChannel(roomId, getCurrentPlayerId());
   const { data: gameState, refetch } = useQuery({
-    queryKey: ['/api/game'],
-    queryFn: getGameState,
-    refetchInterval: 2000,
+    queryKey: ['/api/rooms', roomId],
+    queryFn: () => getGameState(roomId),
+    refetchInterval: liveUpdates ? 30000 : 2000,
   });
 
-  type ServerStats = { wins: number; losses: number; games: number; cachedAt?: number | null; score?: number };
-  function useServerStats(playerId: string) {
-    return useQuery<ServerStats>({
+  // Cross-game stats of a player's account; bots have none
+  function usePlayerStats(playerId: string, enabled: boolean) {
+    return useQuery<PlayerStats>({
       queryKey: ['/api/player-stats', playerId],
+      enabled,
       queryFn: async () => {
         const resp = await fetch(`/api/player-stats/${encodeURIComponent(playerId)}`);
         if (!resp.ok) throw new Error('Failed to load server stats');
@@ -34,11 +44,11 @@ export default function Lobby() {
     });
   }
 
-  const updateMutation = useMutation({
-    mutationFn: (s: any) => updateGameState(s),
+  const readyMutation = useMutation({
+    mutationFn: (vars: { playerId: string; ready: boolean }) => setReady(vars.playerId, vars.ready, roomId),
     onSuccess: (data) => {
-      if (data && data.gameState) queryClient.setQueryData(['/api/game'], data.gameState);
-      else queryClient.invalidateQueries({ queryKey: ['/api/game'] });
+      if (data && data.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
+      else queryClient.invalidateQueries({ queryKey: ['/api/rooms', roomId] });
     },
     onError: (err) => {
       toast({ variant: 'destructive', title: 'Ошибка', description: 'Не удалось обновить состояние' });
@@ -56,12 +66,27 @@ export default function Lobby() {
     try { return localStorage.getItem('playerId') ? 'valid' : 'invalid'; } catch { return 'invalid'; }
   });
   const [isStarting, setIsStarting] = useState(false);
+  // Room picked from the list whose join dialog is open
+  const [joinTarget, setJoinTarget] = useState<RoomSummary | null>(null);
+  const [newRoomName, setNewRoomName] = useState('');
+  const [isCreatingRoom, setIsCreatingRoom] = useState(false);
+  const [botLevel, setBotLevel] = useState<BotLevel>('medium');
+  const [isAddingBot, setIsAddingBot] = useState(false);
+
+  const { data: rooms = [], refetch: refetchRooms } = useQuery<RoomSummary[]>({
+    queryKey: ['/api/rooms'],
+    queryFn: listRooms,
+    refetchInterval: 5000,
+    enabled: authState !== 'valid',
+  });
 
   const activeSessionPlayer = gameState?.players?.find((p: any) => p.id === playerId) || null;
   const hasActiveSession = !!playerId && !!activeSessionPlayer;
   const gameInProgress = !!gameState?.currentPlayer && (gameState?.turn || 0) > 0 && !gameState?.gameEnded;
   const allReady = !!gameState?.players?.length && gameState.players.every((p: any) => !!p.ready);
   const readyCount = gameState?.players?.filter((p: any) => !!p.ready).length || 0;
+  const settings = getGameSettings(gameState);
+  const isHost = !!playerId && gameState?.players?.find((p: any) => !p.bot)?.id === playerId;
 
   useEffect(() => {
     if (!playerId) {
@@ -77,13 +102,9 @@ export default function Lobby() {
 
   const handleToggleReady = async (playerId: string) => {
     try {
-      const fresh = await getGameState();
-      if (!fresh) return;
-      const ns = structuredClone(fresh) as any;
-      const me = ns.players.find((x: any) => x.id === playerId);
+      const me = gameState?.players.find((x: any) => x.id === playerId);
       if (!me) return;
-      me.ready = !me.ready;
-      await updateMutation.mutateAsync(ns);
+      await readyMutation.mutateAsync({ playerId, ready: !me.ready });
     } catch (err) {
       console.error('[Lobby] toggle ready failed', err);
     }
@@ -106,10 +127,14 @@ export default function Lobby() {
         return;
       }
 
-      const resp = await fetch('/api/game/start', { method: 'POST' });
+      const resp = await fetch(`/api/rooms/${encodeURIComponent(roomId)}/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: storedId })
+      });
       if (resp.ok) {
         const data = await resp.json();
-        if (data && data.gameState) queryClient.setQueryData(['/api/game'], data.gameState);
+        if (data && data.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(data.gameState));
         // navigate to game
         setLocation('/');
         toast({ title: 'Игра начата' });
@@ -136,11 +161,15 @@ export default function Lobby() {
 
   // Join flow used as fallback when authState is invalid
   const handleJoin = async (name: string, password: string) => {
+    const targetRoomId = joinTarget?.id ?? roomId;
     try {
-      const resp = await joinGameApi(name, password);
+      const resp = await joinGameApi(name, password, targetRoomId);
       if (resp && (resp as any).playerId) {
         const id = (resp as any).playerId;
         try { localStorage.setItem('playerId', id); localStorage.setItem('playerName', name); } catch {}
+        setCurrentRoomId(resp.roomId || targetRoomId);
+        setRoomId(resp.roomId || targetRoomId);
+        setJoinTarget(null);
         setAuthState('valid');
         try { await refetch(); } catch {}
         return;
@@ -150,15 +179,65 @@ export default function Lobby() {
     }
   };
 
+  const handleCreateRoom = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isCreatingRoom) return;
+    setIsCreatingRoom(true);
+    try {
+      const resp = await createRoom(newRoomName.trim());
+      setNewRoomName('');
+      setJoinTarget(resp.room);
+      try { await refetchRooms(); } catch {}
+    } catch (err: any) {
+      toast({ variant: 'destructive', title: 'Не удалось создать комнату', description: err?.message || 'Ошибка' });
+    } finally {
+      setIsCreatingRoom(false);
+    }
+  };
+
+  const handleAddBot = async () => {
+    if (isAddingBot) return;
+    setIsAddingBot(true);
+    try {
+      const resp = await addBot(botLevel, roomId);
+      if (resp?.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(resp.gameState));
+    } catch (err: any) {
+      toast({ variant: 'destructive', title: 'Не удалось добавить бота', description: err?.message || 'Ошибка' });
+    } finally {
+      setIsAddingBot(false);
+    }
+  };
+
+  const handleSettingsChange = async (patch: Partial<GameSettings>) => {
+    if (!playerId) return;
+    try {
+      const resp = await updateSettings(playerId, patch, roomId);
+      if (resp?.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(resp.gameState));
+    } catch (err: any) {
+      toast({ variant: 'destructive', title: 'Не удалось изменить настройки', description: err?.message || 'Ошибка' });
+    }
+  };
+
+  const handleRemoveBot = async (botId: string) => {
+    if (!playerId) return;
+    try {
+      const resp = await removeBot(playerId, botId, roomId);
+      if (resp?.gameState) queryClient.setQueryData(['/api/rooms', roomId], newerGameState(resp.gameState));
+    } catch (err) {
+      console.error('[Lobby] remove bot failed', err);
+      toast({ variant: 'destructive', title: 'Ошибка', description: 'Не удалось убрать бота' });
+    }
+  };
+
   const handleLeaveLobby = async () => {
     const storedId = typeof window !== 'undefined' ? localStorage.getItem('playerId') : null;
     try {
       if (storedId) {
-        const resp = await leaveGame(storedId);
+        const resp = await leaveGame(storedId, roomId);
         if (resp?.gameState) {
-          queryClient.setQueryData(['/api/game'], resp.gameState);
+          queryClient.setQueryData(['/api/rooms', roomId], newerGameState(resp.gameState));
         } else {
-          queryClient.invalidateQueries({ queryKey: ['/api/game'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
         }
       }
     } catch (err) {
@@ -171,6 +250,21 @@ export default function Lobby() {
     }
   };
 
+  // Sign out of this browser but keep the seat; joining again with the same
+  // name and password signs back in
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      console.error('[Lobby] logout failed', err);
+    } finally {
+      try { localStorage.removeItem('playerId'); localStorage.removeItem('playerName'); } catch {}
+      setAuthState('invalid');
+      setLocation('/');
+      toast({ title: 'Вы вышли из аккаунта' });
+    }
+  };
+
   const handleEnterGame = async () => {
     if (!gameInProgress) {
       toast({ title: 'Игра ещё не начата', description: 'Сначала нажмите «Начать игру»' });
@@ -179,11 +273,8 @@ export default function Lobby() {
     setLocation('/');
   };
 
-  function PlayerRow({ player, localStats, isLocal, onToggleReady }: any) {
-    const { data: serverStats, isLoading, error } = useServerStats(player.id);
-    const s = serverStats || { wins: 0, losses: 0, games: 0, cachedAt: null, score: player.score };
-
-    const stale = s.cachedAt ? (Date.now() - s.cachedAt) > (1000 * 60 * 60 * 24) : false;
+  function PlayerRow({ player, isLocal, onToggleReady, onRemoveBot }: any) {
+    const { data: stats } = usePlayerStats(player.id, !player.bot);
 
     return (
       <div className="flex items-center justify-between p-2 rounded border bg-background">
@@ -194,8 +285,8 @@ export default function Lobby() {
             <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-xs font-medium">{(player.name || '').slice(0,2).toUpperCase()}</div>
           )}
           <div>
-            <div className="font-medium">{player.name}</div>
-              <div className="text-xs text-muted-foreground">{player.score} очков • {s.score ?? '-'}</div>
+            <div className="font-medium">{player.name}{player.bot ? ' 🤖' : ''}</div>
+              <div className="text-xs text-muted-foreground">{player.score} очков</div>
             </div>
             <div
               className={`text-xs ml-2 px-2 py-1 rounded text-sm font-medium ${player.ready ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100' : 'bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100'}`}
@@ -204,8 +295,16 @@ export default function Lobby() {
             </div>
         </div>
         <div className="flex items-center gap-3">
-          <div className="text-sm text-muted-foreground">Local W:{localStats.wins} / L:{localStats.losses} ({localStats.games})</div>
-          <div className="text-sm text-muted-foreground">Server W:{s.wins} / L:{s.losses} ({s.games}){stale ? ' (stale)' : ''}</div>
+          {stats && (
+            <div className="text-xs text-muted-foreground text-right" data-testid={`stats-${player.id}`}>
+              <div>Партий {stats.games} • Победы/ничьи/поражения {stats.wins}/{stats.ties}/{stats.losses} • Средний счёт {stats.games ? Math.round(stats.totalScore / stats.games) : 0}</div>
+              <div>
+                Лучший ход {stats.bestMove ? `${stats.bestMove.score} (${stats.bestMove.words.join(', ')})` : '—'}
+                {' • '}Бинго {stats.bingos}
+                {' • '}Длинное слово {stats.longestWord ?? '—'}
+              </div>
+            </div>
+          )}
           {isLocal && (
             <>
               <Button size="sm" onClick={onToggleReady}>{player.ready ? 'Отменить' : 'Готов'}</Button>
@@ -213,10 +312,10 @@ export default function Lobby() {
                 try {
                   const url = window.prompt('Введите URL аватара (https://...)', player.avatarUrl || '');
                   if (!url) return;
-                  const resp = await fetch(`/api/player/${encodeURIComponent(player.id)}/avatar`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ avatarUrl: url }) });
-                  if (!resp.ok) {
-                    const e = await resp.json().catch(() => ({}));
-                    toast({ variant: 'destructive', title: 'Не удалось установить аватар', description: e.error || 'Ошибка' });
+                  try {
+                    await setAvatar(player.id, url);
+                  } catch (e: any) {
+                    toast({ variant: 'destructive', title: 'Не удалось установить аватар', description: e?.message || 'Ошибка' });
                     return;
                   }
                   // refresh game state so avatar shows up
@@ -229,16 +328,70 @@ export default function Lobby() {
               }}>Аватар</Button>
             </>
           )}
+          {onRemoveBot && (
+            <Button size="sm" variant="outline" onClick={onRemoveBot}>Убрать</Button>
+          )}
         </div>
       </div>
     );
   }
 
-  // If not authenticated, show join dialog fallback
+  // Creating a room opens its join dialog; shown with and without a session
+  const createRoomForm = (
+    <form onSubmit={handleCreateRoom} className="mb-4 flex gap-2">
+      <Input
+        placeholder="Название новой комнаты"
+        value={newRoomName}
+        maxLength={40}
+        onChange={(e) => setNewRoomName(e.target.value)}
+        data-testid="input-room-name"
+      />
+      <Button type="submit" disabled={isCreatingRoom} data-testid="button-create-room">
+        {isCreatingRoom ? 'Создание...' : 'Создать комнату'}
+      </Button>
+    </form>
+  );
+  const joinDialog = (
+    <JoinGameDialog
+      open={!!joinTarget}
+      playerCount={joinTarget?.playerNames.length || 0}
+      maxPlayers={joinTarget?.maxPlayers}
+      roomName={joinTarget?.name}
+      onJoin={handleJoin}
+      onCancel={() => setJoinTarget(null)}
+      defaultName={typeof window !== 'undefined' ? localStorage.getItem('playerName') || undefined : undefined}
+    />
+  );
+
+  // If not authenticated, show the room list; picking a room opens the join dialog
   if (authState !== 'valid') {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
-        <JoinGameDialog open={true} playerCount={gameState?.players?.length || 0} onJoin={handleJoin} defaultName={typeof window !== 'undefined' ? localStorage.getItem('playerName') || undefined : undefined} />
+        <div className="w-full max-w-2xl bg-card p-6 rounded shadow-lg">
+          <h2 className="text-2xl font-bold mb-4">Комнаты</h2>
+          {createRoomForm}
+          <div className="flex flex-col gap-2 max-h-80 overflow-auto">
+            {rooms.length === 0 && <div className="text-sm text-muted-foreground">Пока нет ни одной комнаты — создайте первую</div>}
+            {rooms.map((r) => (
+              <div key={r.id} className="flex items-center justify-between p-2 rounded border bg-background" data-testid={`room-${r.id}`}>
+                <div>
+                  <div className="font-medium">{r.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {r.playerNames.length}/{r.maxPlayers} игроков
+                    {r.playerNames.length > 0 ? ` • ${r.playerNames.join(', ')}` : ''}
+                    {' • '}{r.gameEnded ? 'Игра окончена' : r.inProgress ? 'Идёт игра' : 'Ожидание'}
+                    {r.spectators > 0 ? ` • зрителей: ${r.spectators}` : ''}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setLocation(`/watch/${encodeURIComponent(r.id)}`)} data-testid={`button-watch-${r.id}`}>Смотреть</Button>
+                  <Button size="sm" onClick={() => setJoinTarget(r)}>Войти</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+        {joinDialog}
       </div>
     );
   }
@@ -250,31 +403,63 @@ export default function Lobby() {
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="w-full max-w-2xl bg-card p-6 rounded shadow-lg">
-        <h2 className="text-2xl font-bold mb-4">Лобби — Ожидание игроков</h2>
+        <h2 className="text-2xl font-bold mb-4">Лобби{gameState.roomName ? ` «${gameState.roomName}»` : ''} — Ожидание игроков</h2>
         <div className="mb-4 flex items-center justify-between rounded border px-3 py-2 text-sm">
           <div className="text-muted-foreground">Сессия</div>
           <div className={`font-medium ${hasActiveSession ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
             {hasActiveSession ? `Активна (${activeSessionPlayer?.name || 'игрок'})` : 'Не активна'}
           </div>
         </div>
-        {playerId && <div className="mb-4"><VoiceChat playerId={playerId} voiceVolume={1} playerNames={Object.fromEntries((gameState.players||[]).map((p:any) => [p.id, p.name]))} /></div>}
+        {playerId && <div className="mb-4"><VoiceChat playerId={playerId} roomId={roomId} voiceVolume={1} playerNames={Object.fromEntries((gameState.players||[]).map((p:any) => [p.id, p.name]))} /></div>}
         <div className="mb-4 text-sm text-muted-foreground">Игроки в лобби:</div>
         <div className="mb-3 text-xs text-muted-foreground">Готовность: {readyCount}/{gameState.players.length}</div>
         <div className="flex flex-col gap-2 max-h-60 overflow-auto">
           {gameState.players.map((p: any) => {
-            const local = getStats(p.id);
             const isLocal = p.id === localStorage.getItem('playerId');
-            return <PlayerRow key={p.id} player={p} localStats={local} isLocal={isLocal} onToggleReady={() => handleToggleReady(p.id)} />;
+            const onRemoveBot = p.bot && !gameInProgress ? () => handleRemoveBot(p.id) : undefined;
+            return <PlayerRow key={p.id} player={p} isLocal={isLocal} onToggleReady={() => handleToggleReady(p.id)} onRemoveBot={onRemoveBot} />;
           })}
         </div>
+        {!gameInProgress && gameState.players.length < settings.maxPlayers && (
+          <div className="mt-3 flex items-center gap-2">
+            <Select value={botLevel} onValueChange={(v) => setBotLevel(v as BotLevel)}>
+              <SelectTrigger className="w-40" data-testid="select-bot-level">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="easy">Лёгкий</SelectItem>
+                <SelectItem value="medium">Средний</SelectItem>
+                <SelectItem value="hard">Сильный</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddBot} disabled={isAddingBot} data-testid="button-add-bot">
+              {isAddingBot ? 'Добавление...' : 'Добавить бота'}
+            </Button>
+          </div>
+        )}
+        {!gameInProgress && (
+          <GameSettingsPanel
+            settings={settings}
+            editable={isHost}
+            playerCount={gameState.players.length}
+            onChange={handleSettingsChange}
+          />
+        )}
+        {activeSessionPlayer?.accountId && <GameHistory player={activeSessionPlayer.accountId} />}
         <div className="mt-6 flex gap-3 justify-end">
           <Button onClick={handleEnterGame} disabled={!gameInProgress} data-testid="button-enter-game">Войти в игру</Button>
           <Button variant="outline" onClick={handleLeaveLobby}>Покинуть лобби</Button>
-          {!gameInProgress && gameState.players.length > 0 && gameState.players[0].id === localStorage.getItem('playerId') && (
+          <Button variant="ghost" onClick={handleLogout} data-testid="button-logout">Выйти</Button>
+          {!gameInProgress && isHost && (
             <Button variant="secondary" onClick={handleStart} disabled={isStarting || !allReady}>{isStarting ? 'Запуск...' : 'Начать игру'}</Button>
           )}
         </div>
+        <div className="mt-6 border-t pt-4">
+          <div className="mb-2 text-sm text-muted-foreground">Новая комната:</div>
+          {createRoomForm}
+        </div>
       </div>
+      {joinDialog}
     </div>
   );
 }
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useParams } from 'wouter';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import type { ArchivedGame, GameAnalysis } from '@shared/schema';
+import { buildReplay } from '@shared/replay';
+import GameBoard from '@/components/GameBoard';
+import Tile from '@/components/Tile';
+import GameAnalysisPanel from '@/components/GameAnalysisPanel';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { gameGcgUrl } from '@/lib/gameApi';
+import { describeMove } from '@/lib/gameLogic';
+
+export default function Replay() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const [, setLocation] = useLocation();
+  const { data: game, isLoading, error } = useQuery<ArchivedGame>({
+    queryKey: ['/api/games', gameId],
+  });
+  const frames = useMemo(() => (game ? buildReplay(game) : []), [game]);
+  const [step, setStep] = useState(0);
+  const last = Math.max(0, frames.length - 1);
+  // Analysis is computed on the server on first request, so fetch it on demand
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const { data: analysis, isFetching: analyzing } = useQuery<GameAnalysis>({
+    queryKey: ['/api/games', gameId, 'analysis'],
+    enabled: showAnalysis,
+  });
+  const [alternative, setAlternative] = useState<number | null>(null);
+
+  // Open on the final position
+  useEffect(() => { setStep(last); }, [last]);
+  useEffect(() => { setAlternative(null); }, [step]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+      if (e.key === 'ArrowRight') setStep(s => Math.min(last, s + 1));
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [last]);
+
+  if (isLoading) return <div className="p-6">Загрузка партии…</div>;
+  if (error || !game) {
+    return (
+      <div className="p-6 space-y-4">
+        <div>Партия не найдена</div>
+        <Button onClick={() => setLocation('/lobby')}>В лобби</Button>
+      </div>
+    );
+  }
+
+  const frame = frames[Math.min(step, last)];
+  const names: Record<string, string> = {};
+  for (const m of game.moves) names[m.playerId] = m.playerName;
+  for (const p of game.players) names[p.id] = p.name;
+  const playerIds = Object.keys(frame.scores);
+  // A previewed alternative is shown on the board as it was before the move
+  const shownAlternative = alternative !== null && step > 0
+    ? analysis?.turns.find(t => t.moveIndex === step - 1)?.alternatives[alternative]
+    : undefined;
+
+  return (
+    <div className="min-h-screen p-4 flex flex-col lg:flex-row gap-4" data-testid="page-replay">
+      <div className="flex-1">
+        {shownAlternative ? (
+          <GameBoard board={frames[step - 1].board} placedTiles={[]} previews={{ analysis: shownAlternative.tiles }} />
+        ) : (
+          <GameBoard board={frame.board} placedTiles={[]} lastMovePositions={frame.placed} />
+        )}
+      </div>
+      <div className="w-full lg:w-96 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Повтор партии{game.roomName ? ` — ${game.roomName}` : ''}</h2>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" asChild>
+              <a href={gameGcgUrl(game.id)} download data-testid="link-export-gcg">GCG</a>
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setLocation('/lobby')}>В лобби</Button>
+          </div>
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <div className="text-sm" data-testid="text-replay-move">
+            {frame.move
+              ? <>Ход {step} из {last}: <span className="font-medium">{frame.move.playerName}</span> — {describeMove(frame.move)} ({frame.move.score > 0 ? '+' : ''}{frame.move.score})</>
+              : <>Начало партии</>}
+          </div>
+          <Slider min={0} max={last} step={1} value={[step]} onValueChange={([v]) => setStep(v)} data-testid="slider-replay" />
+          <div className="flex justify-center gap-2">
+            <Button size="icon" variant="outline" onClick={() => setStep(0)} disabled={step === 0} aria-label="В начало"><ChevronsLeft className="w-4 h-4" /></Button>
+            <Button size="icon" variant="outline" onClick={() => setStep(s => Math.max(0, s - 1))} disabled={step === 0} aria-label="Назад" data-testid="button-replay-prev"><ChevronLeft className="w-4 h-4" /></Button>
+            <Button size="icon" variant="outline" onClick={() => setStep(s => Math.min(last, s + 1))} disabled={step >= last} aria-label="Вперёд" data-testid="button-replay-next"><ChevronRight className="w-4 h-4" /></Button>
+            <Button size="icon" variant="outline" onClick={() => setStep(last)} disabled={step >= last} aria-label="В конец"><ChevronsRight className="w-4 h-4" /></Button>
+          </div>
+          {!showAnalysis && (
+            <Button variant="secondary" className="w-full" onClick={() => setShowAnalysis(true)} data-testid="button-analyze">Анализ ходов</Button>
+          )}
+          {showAnalysis && analyzing && !analysis && <div className="text-sm text-muted-foreground">Анализ партии…</div>}
+        </Card>
+
+        {analysis && (
+          <GameAnalysisPanel
+            analysis={analysis}
+            moveIndex={step > 0 ? step - 1 : null}
+            selected={alternative}
+            onSelect={setAlternative}
+          />
+        )}
+
+        {playerIds.map(id => (
+          <Card key={id} className={`p-3 space-y-2 ${frame.move?.playerId === id ? 'border-primary' : ''}`} data-testid={`replay-player-${id}`}>
+            <div className="flex justify-between font-medium">
+              <span>{names[id] || id}</span>
+              <span>{frame.scores[id]} очков</span>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {Array.from({ length: 7 }, (_, i) => frame.racks[id]?.[i] ?? null).map((letter, i) => (
+                <Tile key={i} letter={letter} isEmpty={!letter} isBlank={letter === '?'} />
+              ))}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
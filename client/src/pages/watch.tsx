@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useParams } from 'wouter';
+import { getGameSettings, type GameState } from '@shared/schema';
+import GameBoard from '@/components/GameBoard';
+import PlayerCard from '@/components/PlayerCard';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useGameChannel } from '@/hooks/use-game-channel';
+import { getCurrentPlayerId, getGameState } from '@/lib/gameApi';
+import { bagSize, clockRemainingMs, clockStoppedAt, describeMove } from '@/lib/gameLogic';
+
+// Follow a game without joining it. The server sends spectators the board,
+// scores, history and previews, but no racks and no bag.
+export default function Watch() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const [, setLocation] = useLocation();
+  const playerId = getCurrentPlayerId();
+  const { connected: liveUpdates } = useGameChannel(roomId, playerId);
+  const { data: gameState, isLoading } = useQuery<GameState | null>({
+    queryKey: ['/api/rooms', roomId],
+    queryFn: () => getGameState(roomId),
+    refetchInterval: liveUpdates ? 30000 : 2000,
+  });
+
+  // Tick once a second so the clocks run
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  if (isLoading) return <div className="p-6">Загрузка партии…</div>;
+  if (!gameState) {
+    return (
+      <div className="p-6 space-y-4">
+        <div>Комната не найдена</div>
+        <Button onClick={() => setLocation('/lobby')}>В лобби</Button>
+      </div>
+    );
+  }
+
+  const settings = getGameSettings(gameState);
+  const lastMove = gameState.moves?.[gameState.moves.length - 1];
+  const current = gameState.players.find(p => p.id === gameState.currentPlayer);
+  const turnSecondsLeft = gameState.turnStart && !gameState.paused
+    ? Math.max(0, settings.turnSeconds - Math.floor(((clockStoppedAt(gameState) ?? now) - gameState.turnStart) / 1000))
+    : null;
+  const status = gameState.gameEnded
+    ? 'Игра окончена'
+    : (gameState.turn || 0) === 0
+      ? 'Игра ещё не началась'
+      : gameState.paused
+        ? 'Пауза'
+        : `Ходит ${current?.name ?? '…'}${settings.totalSeconds === 0 && turnSecondsLeft !== null ? ` (${turnSecondsLeft} с)` : ''}`;
+
+  return (
+    <div className="min-h-screen p-4 flex flex-col lg:flex-row gap-4" data-testid="page-watch">
+      <div className="flex-1">
+        <GameBoard
+          board={gameState.board}
+          placedTiles={[]}
+          lastMovePositions={lastMove?.type === 'play' ? lastMove.meta?.placedTiles : undefined}
+          previews={gameState.previews || {}}
+        />
+      </div>
+      <div className="w-full lg:w-96 flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Наблюдение{gameState.roomName ? ` — ${gameState.roomName}` : ''}</h2>
+          <Button size="sm" variant="outline" onClick={() => setLocation('/lobby')}>В лобби</Button>
+        </div>
+
+        <Card className="p-3 text-sm space-y-1">
+          <div data-testid="text-watch-status">{status}</div>
+          <div className="text-muted-foreground">
+            Фишек в мешке: <span className="font-semibold">{bagSize(gameState)}</span>
+          </div>
+        </Card>
+
+        <div className="flex gap-2">
+          {gameState.players.map((player, index) => {
+            const ms = clockRemainingMs(gameState, player, now);
+            return (
+              <PlayerCard
+                key={player.id}
+                player={player}
+                isCurrentPlayer={player.id === gameState.currentPlayer}
+                playerIndex={index}
+                clockSeconds={ms === null ? null : Math.floor(ms / 1000)}
+                tileCount={player.tileCount ?? player.rack.filter(Boolean).length}
+              />
+            );
+          })}
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">История ходов</h3>
+          <div className="flex flex-col gap-2 max-h-[40vh] overflow-auto">
+            {(gameState.moves || []).length === 0 && <div className="text-sm text-muted-foreground">Ходов пока нет</div>}
+            {(gameState.moves || []).slice().reverse().map((m, idx) => (
+              <div key={`${m.playerId}-${m.timestamp}-${idx}`} className="p-2 rounded border bg-card text-sm flex justify-between gap-2">
+                <span><span className="font-medium">{m.playerName}</span> — {describeMove(m)}</span>
+                <span className="font-semibold">{m.score > 0 ? '+' : ''}{m.score}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
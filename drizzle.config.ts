@@ -4,9 +4,11 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
+// The Postgres database at DATABASE_URL (server/pgSchema.ts, `npm run db:push`).
+// Its migrations are kept apart from the SQLite ones in migrations/.
 export default defineConfig({
-  out: "./migrations",
-  schema: "./shared/schema.ts",
+  out: "./migrations-pg",
+  schema: "./server/pgSchema.ts",
   dialect: "postgresql",
   dbCredentials: {
     url: process.env.DATABASE_URL,
@@ -0,0 +1,14 @@
+import { defineConfig } from "drizzle-kit";
+
+// The game database used with USE_SQLITE_STORAGE=true (see server/dbSchema.ts).
+// `npm run db:generate` writes a migration for schema changes; the server
+// applies pending migrations when it starts. drizzle.config.ts is the same
+// tables in Postgres.
+export default defineConfig({
+  out: "./migrations",
+  schema: "./server/dbSchema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.GAME_DB_FILE || "data/game.db",
+  },
+});
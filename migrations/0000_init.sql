@@ -0,0 +1,65 @@
+CREATE TABLE `accounts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`name_key` text NOT NULL,
+	`password_hash` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `accounts_name_key_idx` ON `accounts` (`name_key`);--> statement-breakpoint
+CREATE TABLE `archived_games` (
+	`id` text PRIMARY KEY NOT NULL,
+	`room_id` text,
+	`ended_at` integer NOT NULL,
+	`imported` integer DEFAULT false NOT NULL,
+	`data` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `archived_games_ended_idx` ON `archived_games` (`ended_at`);--> statement-breakpoint
+CREATE TABLE `credentials` (
+	`player_id` text PRIMARY KEY NOT NULL,
+	`password_hash` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `games` (
+	`room_id` text PRIMARY KEY NOT NULL,
+	`version` integer NOT NULL,
+	`state` text NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `moves` (
+	`room_id` text NOT NULL,
+	`seq` integer NOT NULL,
+	`player_id` text NOT NULL,
+	`type` text,
+	`score` integer NOT NULL,
+	`data` text NOT NULL,
+	PRIMARY KEY(`room_id`, `seq`),
+	FOREIGN KEY (`room_id`) REFERENCES `games`(`room_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `player_stats` (
+	`account_id` text PRIMARY KEY NOT NULL,
+	`data` text NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `players` (
+	`id` text PRIMARY KEY NOT NULL,
+	`room_id` text NOT NULL,
+	`seat` integer NOT NULL,
+	`account_id` text,
+	`name` text NOT NULL,
+	`data` text NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `games`(`room_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `players_room_idx` ON `players` (`room_id`);--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`token_hash` text PRIMARY KEY NOT NULL,
+	`player_id` text NOT NULL,
+	`expires_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `sessions_player_idx` ON `sessions` (`player_id`);
\ No newline at end of file
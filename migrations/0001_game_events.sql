@@ -0,0 +1,10 @@
+CREATE TABLE `game_events` (
+	`room_id` text NOT NULL,
+	`seq` integer NOT NULL,
+	`version` integer NOT NULL,
+	`at` integer NOT NULL,
+	`type` text NOT NULL,
+	`event` text NOT NULL,
+	`diff` text,
+	PRIMARY KEY(`room_id`, `seq`)
+);
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { ArchivedGame, Move } from "@shared/schema";
+import { loadWordDictionary } from "./wordDictionary";
+import { analyzeGame } from "./analysis";
+
+// A three-word dictionary keeps the move generator small
+const dictionary = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-')), 'words.txt');
+fs.writeFileSync(dictionary, 'кот\nток\nкит\n');
+loadWordDictionary(dictionary);
+
+const КОТ = [{ row: 7, col: 7, letter: 'К' }, { row: 7, col: 8, letter: 'О' }, { row: 7, col: 9, letter: 'Т' }];
+
+function move(playerId: string, type: Move['type'], score: number, meta: Move['meta'], words: string[] = []): Move {
+  return { playerId, playerName: playerId, words, score, turn: 0, timestamp: 0, type, meta };
+}
+
+// Анна plays КОТ, takes it back and plays it again; Борис loses his turn to
+// a failed challenge, Анна hers to the clock, then Борис passes by choice
+const game: ArchivedGame = {
+  id: 'game_1',
+  endedAt: 0,
+  winnerIds: ['anna'],
+  players: [
+    { id: 'anna', name: 'anna', rack: ['И'], score: 8 },
+    { id: 'boris', name: 'boris', rack: ['И'], score: 0 },
+  ],
+  moves: [
+    move('anna', 'takeback', 0, { rackBefore: ['К', 'О', 'Т'], placedTiles: КОТ, originalScore: 8 }, ['КОТ']),
+    move('anna', 'play', 8, { rackBefore: ['К', 'О', 'Т'], placedTiles: КОТ }, ['КОТ']),
+    move('boris', 'skip', 0, { reason: 'challenge_failed', rackBefore: ['К', 'И'] }),
+    move('anna', 'skip', 0, { reason: 'timeout', rackBefore: ['И'] }),
+    move('boris', 'skip', 0, { rackBefore: ['К', 'И'] }),
+  ],
+};
+
+test('only the turns a player chose and that stood are analysed', () => {
+  const analysis = analyzeGame(game);
+  assert.deepEqual(analysis.turns.map(t => t.moveIndex), [1, 4]);
+  // The same as if the game had only those turns
+  const stood = analyzeGame({ ...game, moves: [game.moves[1], game.moves[4]] });
+  assert.deepEqual(analysis.players, stood.players);
+  assert.deepEqual(analysis.players.map(p => p.turns), [1, 1]);
+});
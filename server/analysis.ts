@@ -0,0 +1,59 @@
+import { getGameSettings, type ArchivedGame, type GameAnalysis, type Move, type PlayerAnalysis, type TurnAnalysis } from "@shared/schema";
+import { buildReplay } from "@shared/replay";
+import { generateMoves } from "./moveGenerator";
+
+// Alternatives listed per turn
+const ALTERNATIVES = 3;
+
+// Skips the player did not choose: lost to a failed challenge or the clock
+const FORCED_SKIPS = ['challenge_failed', 'timeout'];
+
+// Whether a move is a turn the player chose and that stood: plays later taken
+// back are replayed from the same rack, and forced skips offered no choice
+function isOwnTurn(move: Move): boolean {
+  if (move.type === 'adjustment' || move.type === 'takeback') return false;
+  return !(move.type === 'skip' && FORCED_SKIPS.includes(move.meta?.reason));
+}
+
+/**
+ * Replay a finished game and, for every turn whose rack was recorded, find
+ * the top-scoring plays from the same board and rack. A player's accuracy is
+ * the share of the best available points they actually scored. Taken back
+ * plays and forced skips are left out (see isOwnTurn).
+ */
+export function analyzeGame(game: ArchivedGame): GameAnalysis {
+  const frames = buildReplay(game);
+  const { bingoBonus } = getGameSettings(game);
+  const turns: TurnAnalysis[] = [];
+
+  game.moves.forEach((move, i) => {
+    const rack = move.meta?.rackBefore;
+    if (!isOwnTurn(move) || !Array.isArray(rack)) return;
+    const alternatives = generateMoves(frames[i].board, rack, { limit: ALTERNATIVES, bingoBonus });
+    const actualScore = move.type === 'play' ? move.score : 0;
+    turns.push({
+      moveIndex: i,
+      playerId: move.playerId,
+      actualScore,
+      alternatives,
+      pointsLost: Math.max(0, (alternatives[0]?.score ?? 0) - actualScore),
+    });
+  });
+
+  const players: PlayerAnalysis[] = game.players.map(p => {
+    const own = turns.filter(t => t.playerId === p.id);
+    const actualTotal = own.reduce((sum, t) => sum + t.actualScore, 0);
+    const bestTotal = own.reduce((sum, t) => sum + Math.max(t.actualScore, t.alternatives[0]?.score ?? 0), 0);
+    return {
+      playerId: p.id,
+      name: p.name,
+      turns: own.length,
+      actualTotal,
+      bestTotal,
+      pointsLost: own.reduce((sum, t) => sum + t.pointsLost, 0),
+      accuracy: bestTotal > 0 ? Math.round((actualTotal / bestTotal) * 100) : 100,
+    };
+  });
+
+  return { gameId: game.id, turns, players };
+}
@@ -0,0 +1,70 @@
+import type { IncomingMessage } from "http";
+import type { NextFunction, Request, Response } from "express";
+import { storage, SESSION_TTL_MS } from "./storage";
+
+// HttpOnly cookie holding the session token issued on join
+export const SESSION_COOKIE = 'erudit_session';
+
+function sessionToken(req: IncomingMessage): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq !== -1 && part.slice(0, eq).trim() === SESSION_COOKIE) {
+      try {
+        return decodeURIComponent(part.slice(eq + 1).trim()) || null;
+      } catch (e) {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/** The player signed in on the request's session cookie, if any */
+export async function sessionPlayerOf(req: IncomingMessage): Promise<string | null> {
+  const token = sessionToken(req);
+  return (token && (await storage.getSessionPlayer(token))) || null;
+}
+
+/** Sign `playerId` in: issue a session and set its cookie */
+export async function startSession(req: Request, res: Response, playerId: string) {
+  const token = await storage.createSession(playerId);
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    path: '/',
+    maxAge: SESSION_TTL_MS,
+  });
+}
+
+/** Drop the request's session and its cookie */
+export async function endSession(req: Request, res: Response) {
+  const token = sessionToken(req);
+  if (token) await storage.deleteSession(token);
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+/** Resolve the session cookie into `res.locals.playerId` for later handlers */
+export async function loadSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    res.locals.playerId = await sessionPlayerOf(req);
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Guard for routes that act for a player: the request must carry a session,
+ * and any player it names (`:playerId` or `playerId` in the body) must be
+ * the one signed in.
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  const playerId: string | null = res.locals.playerId;
+  if (!playerId) return res.status(401).json({ error: 'Not signed in' });
+  const claimed = req.params.playerId ?? req.body?.playerId;
+  if (claimed !== undefined && claimed !== playerId) {
+    return res.status(403).json({ error: 'Signed in as a different player' });
+  }
+  next();
+}
@@ -0,0 +1,96 @@
+import { getGameSettings, type BotLevel, type GameState, type PlacedTile } from "@shared/schema";
+import { generateMoves, type CandidateMove } from "./moveGenerator";
+
+export const BOT_NAMES: Record<BotLevel, string> = {
+  easy: 'Бот (лёгкий)',
+  medium: 'Бот (средний)',
+  hard: 'Бот (сильный)',
+};
+
+export type BotAction =
+  | { type: 'play'; tiles: PlacedTile[] }
+  | { type: 'exchange'; letters: string[] }
+  | { type: 'skip' };
+
+const VOWELS = new Set(['А', 'Е', 'И', 'О', 'У', 'Ы', 'Э', 'Ю', 'Я']);
+// Letters that are easy to play and worth keeping / awkward ones to get rid of
+const GOOD_LEAVE = new Set(['А', 'Е', 'И', 'О', 'Н', 'Р', 'С', 'Т', 'Л', 'К']);
+const BAD_LEAVE = new Set(['Ф', 'Щ', 'Ц', 'Э', 'Ю', 'Ш', 'Ж', 'Ь', 'Ы', 'Й']);
+
+/**
+ * Rough value of the tiles left on the rack after a play: blanks and common
+ * letters are worth keeping, duplicates and a vowel/consonant imbalance hurt.
+ */
+export function evaluateLeave(leave: string[]): number {
+  let value = 0;
+  const counts: Record<string, number> = {};
+  let vowels = 0;
+  for (const t of leave) {
+    counts[t] = (counts[t] || 0) + 1;
+    if (t === '?') value += 8;
+    else if (GOOD_LEAVE.has(t)) value += 1;
+    else if (BAD_LEAVE.has(t)) value -= 3;
+    if (VOWELS.has(t)) vowels++;
+  }
+  for (const [t, n] of Object.entries(counts)) {
+    if (t !== '?' && n > 1) value -= 2 * (n - 1);
+  }
+  const consonants = leave.filter(t => t !== '?').length - vowels;
+  value -= Math.max(0, Math.abs(vowels - consonants) - 1);
+  return value;
+}
+
+function leaveAfter(rack: (string | null)[], tiles: PlacedTile[]): string[] {
+  const leave = rack.filter((t): t is string => t !== null);
+  for (const t of tiles) {
+    const idx = leave.indexOf(t.blank ? '?' : t.letter);
+    if (idx !== -1) leave.splice(idx, 1);
+  }
+  return leave;
+}
+
+function pickMove(moves: CandidateMove[], rack: (string | null)[], level: BotLevel): CandidateMove {
+  if (level === 'easy') {
+    return moves[Math.floor(Math.random() * moves.length)];
+  }
+  if (level === 'medium') {
+    const top = moves.slice(0, 5);
+    return top[Math.floor(Math.random() * top.length)];
+  }
+  let best = moves[0];
+  let bestValue = -Infinity;
+  for (const m of moves) {
+    const value = m.score + evaluateLeave(leaveAfter(rack, m.tiles));
+    if (value > bestValue) {
+      best = m;
+      bestValue = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Decide what the bot `playerId` does on its turn. Bots only play dictionary
+ * words; with no play available stronger bots exchange their worst tiles.
+ */
+export function chooseBotAction(gameState: GameState, playerId: string): BotAction {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) return { type: 'skip' };
+  const level = player.bot || 'medium';
+
+  const moves = generateMoves(gameState.board, player.rack, { bingoBonus: getGameSettings(gameState).bingoBonus });
+  if (moves.length > 0) {
+    return { type: 'play', tiles: pickMove(moves, player.rack, level).tiles };
+  }
+
+  const tiles = player.rack.filter((t): t is string => t !== null);
+  if (level !== 'easy' && gameState.tileBag.length >= 7 && tiles.length > 0) {
+    // Keep the blanks and the best-fitting letters, swap the rest
+    const ranked = [...tiles].sort((a, b) => evaluateLeave([b]) - evaluateLeave([a]));
+    const keep = ranked.filter(t => t === '?' || GOOD_LEAVE.has(t)).slice(0, 3);
+    const letters = leaveAfter(player.rack, keep.map(letter => ({ row: 0, col: 0, letter, blank: letter === '?' })));
+    if (letters.length > 0) return { type: 'exchange', letters };
+  }
+
+  return { type: 'skip' };
+}
@@ -0,0 +1,153 @@
+/**
+ * Minimal acyclic word automaton (DAWG) over an uppercase alphabet.
+ *
+ * Built incrementally from a sorted word list (Daciuk et al.): equivalent
+ * suffix states are merged as soon as a word's branch is finished, so the
+ * graph never grows much beyond its minimal size. The finished graph is
+ * packed into typed arrays; node 0 is the root.
+ *
+ * This module has no Node dependencies so it can be bundled for the client.
+ */
+
+interface BuildNode {
+  edges: Map<string, number>;
+  terminal: boolean;
+}
+
+export class Dawg {
+  readonly nodeCount: number;
+  private readonly edgeStart: Int32Array;
+  private readonly edgeLetter: Uint16Array;
+  private readonly edgeTarget: Int32Array;
+  private readonly terminal: Uint8Array;
+
+  constructor(edgeStart: Int32Array, edgeLetter: Uint16Array, edgeTarget: Int32Array, terminal: Uint8Array) {
+    this.nodeCount = terminal.length;
+    this.edgeStart = edgeStart;
+    this.edgeLetter = edgeLetter;
+    this.edgeTarget = edgeTarget;
+    this.terminal = terminal;
+  }
+
+  get root(): number {
+    return 0;
+  }
+
+  isTerminal(node: number): boolean {
+    return this.terminal[node] === 1;
+  }
+
+  /** Node reached from `node` by `letter`, or -1 */
+  child(node: number, letter: string): number {
+    const code = letter.charCodeAt(0);
+    for (let e = this.edgeStart[node]; e < this.edgeStart[node + 1]; e++) {
+      if (this.edgeLetter[e] === code) return this.edgeTarget[e];
+    }
+    return -1;
+  }
+
+  /** Outgoing edges of `node` as [letter, target] pairs */
+  edges(node: number): [string, number][] {
+    const out: [string, number][] = [];
+    for (let e = this.edgeStart[node]; e < this.edgeStart[node + 1]; e++) {
+      out.push([String.fromCharCode(this.edgeLetter[e]), this.edgeTarget[e]]);
+    }
+    return out;
+  }
+
+  /** Node reached by spelling `prefix` from the root, or -1 */
+  walk(prefix: string, from = 0): number {
+    let node = from;
+    for (let i = 0; i < prefix.length && node !== -1; i++) node = this.child(node, prefix[i]);
+    return node;
+  }
+
+  has(word: string): boolean {
+    const node = this.walk(word);
+    return node !== -1 && this.isTerminal(node);
+  }
+}
+
+/**
+ * Build a DAWG from `words` (any order, duplicates allowed).
+ */
+export function buildDawg(words: Iterable<string>): Dawg {
+  const sorted = Array.from(new Set(words)).sort();
+  const nodes: (BuildNode | null)[] = [{ edges: new Map(), terminal: false }];
+  const register = new Map<string, number>();
+  // Path of the previous word that has not been minimized yet
+  const unchecked: { parent: number; letter: string; child: number }[] = [];
+  let previous = '';
+
+  const signature = (id: number): string => {
+    const node = nodes[id]!;
+    const parts = Array.from(node.edges.entries()).map(([l, t]) => l + t);
+    return (node.terminal ? '1' : '0') + parts.join(',');
+  };
+
+  const minimize = (downTo: number) => {
+    for (let i = unchecked.length - 1; i >= downTo; i--) {
+      const { parent, letter, child } = unchecked[i];
+      const sig = signature(child);
+      const existing = register.get(sig);
+      if (existing !== undefined) {
+        nodes[parent]!.edges.set(letter, existing);
+        nodes[child] = null;
+      } else {
+        register.set(sig, child);
+      }
+      unchecked.pop();
+    }
+  };
+
+  for (const word of sorted) {
+    let common = 0;
+    while (common < word.length && common < previous.length && word[common] === previous[common]) common++;
+    minimize(common);
+
+    let node = unchecked.length > 0 ? unchecked[unchecked.length - 1].child : 0;
+    for (let i = common; i < word.length; i++) {
+      const child = nodes.length;
+      nodes.push({ edges: new Map(), terminal: false });
+      nodes[node]!.edges.set(word[i], child);
+      unchecked.push({ parent: node, letter: word[i], child });
+      node = child;
+    }
+    nodes[node]!.terminal = true;
+    previous = word;
+  }
+  minimize(0);
+
+  // Renumber reachable nodes densely and pack the edges
+  const ids = new Map<number, number>([[0, 0]]);
+  const order = [0];
+  for (let i = 0; i < order.length; i++) {
+    for (const target of Array.from(nodes[order[i]]!.edges.values())) {
+      if (!ids.has(target)) {
+        ids.set(target, order.length);
+        order.push(target);
+      }
+    }
+  }
+
+  let edgeCount = 0;
+  for (const id of order) edgeCount += nodes[id]!.edges.size;
+  const edgeStart = new Int32Array(order.length + 1);
+  const edgeLetter = new Uint16Array(edgeCount);
+  const edgeTarget = new Int32Array(edgeCount);
+  const terminal = new Uint8Array(order.length);
+  let e = 0;
+  order.forEach((id, packed) => {
+    const node = nodes[id]!;
+    edgeStart[packed] = e;
+    terminal[packed] = node.terminal ? 1 : 0;
+    for (const [letter, target] of Array.from(node.edges.entries())) {
+      edgeLetter[e] = letter.charCodeAt(0);
+      edgeTarget[e] = ids.get(target)!;
+      e++;
+    }
+  });
+  edgeStart[order.length] = e;
+
+  return new Dawg(edgeStart, edgeLetter, edgeTarget, terminal);
+}
@@ -0,0 +1,88 @@
+import { index, integer, primaryKey, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import type { GameState, Move, Player, PlayerStats, ArchivedGame } from "@shared/schema";
+import type { GameDiff } from "@shared/gameChannel";
+import type { GameLogEvent } from "@shared/gameLog";
+
+// Tables of the SQLite storage (SqlStorage in storage.ts). Columns stick to
+// text and integer, with JSON kept as text. Run `npm run db:generate` after
+// changing them to add a migration (drizzle.sqlite.config.ts), and make the
+// same change to their Postgres version in pgSchema.ts.
+
+// Room state other than its players and moves
+export type RoomState = Omit<GameState, 'players' | 'moves'>;
+
+// One row per room with a live game
+export const games = sqliteTable('games', {
+  roomId: text('room_id').primaryKey(),
+  version: integer('version').notNull(),
+  state: text('state', { mode: 'json' }).$type<RoomState>().notNull(),
+  updatedAt: integer('updated_at').notNull(),
+});
+
+// Seats of the live games, in turn order
+export const players = sqliteTable('players', {
+  id: text('id').primaryKey(),
+  roomId: text('room_id').notNull().references(() => games.roomId, { onDelete: 'cascade' }),
+  seat: integer('seat').notNull(),
+  accountId: text('account_id'),
+  name: text('name').notNull(),
+  data: text('data', { mode: 'json' }).$type<Player>().notNull(),
+}, table => [index('players_room_idx').on(table.roomId)]);
+
+// History of the live games
+export const moves = sqliteTable('moves', {
+  roomId: text('room_id').notNull().references(() => games.roomId, { onDelete: 'cascade' }),
+  seq: integer('seq').notNull(),
+  playerId: text('player_id').notNull(),
+  type: text('type'),
+  score: integer('score').notNull(),
+  data: text('data', { mode: 'json' }).$type<Move>().notNull(),
+}, table => [primaryKey({ columns: [table.roomId, table.seq] })]);
+
+// Finished games, moves included
+export const archivedGames = sqliteTable('archived_games', {
+  id: text('id').primaryKey(),
+  roomId: text('room_id'),
+  endedAt: integer('ended_at').notNull(),
+  imported: integer('imported', { mode: 'boolean' }).notNull().default(false),
+  data: text('data', { mode: 'json' }).$type<ArchivedGame>().notNull(),
+}, table => [index('archived_games_ended_idx').on(table.endedAt)]);
+
+export const accounts = sqliteTable('accounts', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  // Lower-cased, trimmed name; names are unique the way they are matched
+  nameKey: text('name_key').notNull(),
+  passwordHash: text('password_hash').notNull(),
+  createdAt: integer('created_at').notNull(),
+}, table => [uniqueIndex('accounts_name_key_idx').on(table.nameKey)]);
+
+// Password of each seat, checked when a player joins again by name
+export const credentials = sqliteTable('credentials', {
+  playerId: text('player_id').primaryKey(),
+  passwordHash: text('password_hash').notNull(),
+});
+
+export const playerStats = sqliteTable('player_stats', {
+  accountId: text('account_id').primaryKey(),
+  data: text('data', { mode: 'json' }).$type<PlayerStats>().notNull(),
+  updatedAt: integer('updated_at').notNull(),
+});
+
+export const sessions = sqliteTable('sessions', {
+  // sha256 of the token; the token itself is never stored
+  tokenHash: text('token_hash').primaryKey(),
+  playerId: text('player_id').notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, table => [index('sessions_player_idx').on(table.playerId)]);
+
+// Append-only log of each room (see shared/gameLog.ts); kept after the room closes
+export const gameEvents = sqliteTable('game_events', {
+  roomId: text('room_id').notNull(),
+  seq: integer('seq').notNull(),
+  version: integer('version').notNull(),
+  at: integer('at').notNull(),
+  type: text('type').notNull(),
+  event: text('event', { mode: 'json' }).$type<GameLogEvent>().notNull(),
+  diff: text('diff', { mode: 'json' }).$type<GameDiff>(),
+}, table => [primaryKey({ columns: [table.roomId, table.seq] })]);
@@ -0,0 +1,150 @@
+import { WebSocket } from 'ws';
+import type { GameState } from "@shared/schema";
+import { isValidRoomId } from "./storage";
+import { isSeated } from "./gameView";
+import { computeGameDiff, type GameChannelClientMessage, type GameChannelServerMessage, type GameEvent } from "@shared/gameChannel";
+
+// What one viewer may see of a room's state
+export type GameViewFn = (roomId: string, state: GameState, viewerId: string | null) => GameState;
+
+interface Subscriber {
+  // Player the socket follows the game as; null for anonymous spectators
+  viewerId: string | null;
+  seq: number;
+  // Last view sent to this socket; diffs are computed against it
+  sent: GameState | null;
+}
+
+interface RoomFeed {
+  // Whether `state` is known (published, or loaded from storage)
+  loaded: boolean;
+  state: GameState | null;
+  subscribers: Map<WebSocket, Subscriber>;
+}
+
+/**
+ * Pushes game state changes to the sockets subscribed to each room. Every
+ * socket gets its own view of the state (see GameViewFn) and its own
+ * sequence numbers, which restart whenever it (re)subscribes and gets a
+ * fresh snapshot.
+ */
+export class GameChannel {
+  private feeds = new Map<string, RoomFeed>();
+
+  constructor(
+    private loadState: (roomId: string) => Promise<GameState | undefined>,
+    private view: GameViewFn,
+  ) {}
+
+  private feed(roomId: string): RoomFeed {
+    let feed = this.feeds.get(roomId);
+    if (!feed) {
+      feed = { loaded: false, state: null, subscribers: new Map() };
+      this.feeds.set(roomId, feed);
+    }
+    return feed;
+  }
+
+  private send(ws: WebSocket, msg: GameChannelServerMessage) {
+    try {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+    } catch (err) {
+      console.warn('[GameChannel] send failed', err);
+    }
+  }
+
+  private viewOf(roomId: string, state: GameState | null, sub: Subscriber): GameState | null {
+    return state ? this.view(roomId, state, sub.viewerId) : null;
+  }
+
+  private async sendSnapshot(ws: WebSocket, roomId: string) {
+    const feed = this.feed(roomId);
+    // Nothing published since startup: the saved state is the baseline
+    if (!feed.loaded) {
+      const saved = await this.loadState(roomId);
+      if (!feed.loaded) {
+        feed.state = saved ? structuredClone(saved) : null;
+        feed.loaded = true;
+      }
+    }
+    const sub = feed.subscribers.get(ws);
+    if (!sub) return;
+    sub.seq++;
+    sub.sent = this.viewOf(roomId, feed.state, sub);
+    this.send(ws, { type: 'game-snapshot', roomId, seq: sub.seq, state: sub.sent });
+  }
+
+  // Send a subscriber whatever changed in its view of the room
+  private push(ws: WebSocket, roomId: string, sub: Subscriber, next: GameState | null, event: GameEvent) {
+    if (sub.sent && next) {
+      const diff = computeGameDiff(sub.sent, next);
+      if (!diff) return;
+      sub.seq++;
+      sub.sent = next;
+      this.send(ws, { type: 'game-diff', roomId, seq: sub.seq, event, diff });
+    } else {
+      sub.seq++;
+      sub.sent = next;
+      this.send(ws, { type: 'game-snapshot', roomId, seq: sub.seq, event, state: next });
+    }
+  }
+
+  /**
+   * Handle a `game-*` message from a client socket whose session is signed
+   * in as `viewerId` (null for anonymous spectators)
+   */
+  async handleMessage(ws: WebSocket, msg: GameChannelClientMessage, viewerId: string | null) {
+    const roomId = String(msg.roomId || '');
+    if (!isValidRoomId(roomId)) return;
+    if (msg.type === 'game-subscribe') {
+      this.feed(roomId).subscribers.set(ws, { viewerId, seq: 0, sent: null });
+      await this.sendSnapshot(ws, roomId);
+    } else if (msg.type === 'game-resync') {
+      if (this.feeds.get(roomId)?.subscribers.has(ws)) await this.sendSnapshot(ws, roomId);
+    } else if (msg.type === 'game-unsubscribe') {
+      this.feeds.get(roomId)?.subscribers.delete(ws);
+    }
+  }
+
+  /** Forget a closed socket */
+  removeSocket(ws: WebSocket) {
+    for (const feed of Array.from(this.feeds.values())) feed.subscribers.delete(ws);
+  }
+
+  /**
+   * Broadcast the new state of a room (null when the room was closed).
+   */
+  publish(roomId: string, state: GameState | null | undefined, event: GameEvent) {
+    const feed = this.feed(roomId);
+    feed.state = state ? structuredClone(state) : null;
+    feed.loaded = true;
+    this.refresh(roomId, event);
+    if (!feed.state && feed.subscribers.size === 0) this.feeds.delete(roomId);
+  }
+
+  /**
+   * Re-send the last published state, for views that change over time
+   * (delayed spectator previews).
+   */
+  refresh(roomId: string, event: GameEvent = 'preview') {
+    const feed = this.feeds.get(roomId);
+    if (!feed) return;
+    for (const [ws, sub] of Array.from(feed.subscribers.entries())) {
+      this.push(ws, roomId, sub, this.viewOf(roomId, feed.state, sub), event);
+    }
+  }
+
+  /** Number of sockets following a room without a seat in its game */
+  spectatorCount(roomId: string, state: GameState): number {
+    const feed = this.feeds.get(roomId);
+    if (!feed) return 0;
+    return Array.from(feed.subscribers.values()).filter(sub => !isSeated(state, sub.viewerId)).length;
+  }
+
+  /** Number of sockets following each room (for health output) */
+  stats(): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const [roomId, feed] of Array.from(this.feeds.entries())) out[roomId] = feed.subscribers.size;
+    return out;
+  }
+}
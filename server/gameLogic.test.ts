@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BOARD_SIZE, type GameState, type Move } from "@shared/schema";
+import { MAX_OVERTIME_MS, answerTakeback, applyPause, applyTimeout, chargeClock, checkGameEnd, requestTakeback, turnDeadline } from "./gameLogic";
+
+// Анна has just played КОТ; Борис is on turn and has used 10 s of it
+function afterPlay(settings: GameState['settings'] = {} as GameState['settings']): GameState {
+  const board: GameState['board'] = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null));
+  board[7][7] = { letter: 'К' };
+  board[7][8] = { letter: 'О' };
+  board[7][9] = { letter: 'Т' };
+  return {
+    board,
+    tileBag: ['А', 'Б', 'В'],
+    players: [
+      { id: 'anna', name: 'Анна', rack: ['Д', 'Е', 'Ж', 'З', 'И', 'Й', 'Л'], score: 8, timeBankMs: 60000 },
+      { id: 'boris', name: 'Борис', rack: ['М', 'Н', 'О', 'П', 'Р', 'С', 'У'], score: 0, timeBankMs: 60000 },
+    ],
+    currentPlayer: 'boris',
+    turn: 2,
+    turnStart: Date.now() - 10000,
+    settings,
+    moves: [{
+      playerId: 'anna',
+      playerName: 'Анна',
+      words: ['КОТ'],
+      score: 8,
+      turn: 1,
+      timestamp: Date.now() - 10000,
+      type: 'play',
+      meta: {
+        placedTiles: [{ row: 7, col: 7, letter: 'К' }, { row: 7, col: 8, letter: 'О' }, { row: 7, col: 9, letter: 'Т' }],
+        rackBefore: ['К', 'О', 'Т', 'Д', 'Е', 'Ж', 'З'],
+        drawn: ['И', 'Й', 'Л'],
+      },
+    }],
+  };
+}
+
+// The takeback was asked for 4 s into Борис's turn, 6 s ago
+function waitingForTakeback(settings?: GameState['settings']): GameState {
+  const state = afterPlay(settings);
+  assert.deepEqual(requestTakeback(state, 'anna'), { valid: true, applied: false });
+  state.pendingTakeback!.requestedAt = Date.now() - 6000;
+  return state;
+}
+
+test('a turn timeout does nothing while a takeback waits for answers', () => {
+  const state = waitingForTakeback({ timeoutAction: 'penalty' } as GameState['settings']);
+  const before = structuredClone(state);
+  assert.equal(applyTimeout(state, 'boris').valid, false);
+  assert.deepEqual(state, before);
+});
+
+test('the chess clock stands still while a takeback waits for answers', () => {
+  const state = waitingForTakeback({ totalSeconds: 60 } as GameState['settings']);
+  const now = Date.now();
+  chargeClock(state, now);
+  assert.ok(Math.abs(state.players[1].timeBankMs! - 56000) < 50);
+});
+
+test('a refused takeback restarts the turn time where it stopped', () => {
+  const state = waitingForTakeback({ totalSeconds: 60 } as GameState['settings']);
+  assert.deepEqual(answerTakeback(state, 'boris', false), { valid: true, applied: false });
+  assert.equal(state.pendingTakeback, null);
+  assert.ok(Math.abs(Date.now() - state.turnStart! - 4000) < 50);
+});
+
+test('a takeback charges the opponent only up to the request', () => {
+  const state = waitingForTakeback({ totalSeconds: 60 } as GameState['settings']);
+  assert.deepEqual(answerTakeback(state, 'boris', true), { valid: true, applied: true });
+  assert.equal(state.currentPlayer, 'anna');
+  assert.ok(Math.abs(state.players[1].timeBankMs! - 56000) < 50);
+});
+
+test('the game cannot be paused while a takeback waits for answers', () => {
+  const state = waitingForTakeback();
+  assert.equal(applyPause(state, 'boris', true).valid, false);
+  assert.ok(!state.paused);
+});
+
+test('hints of a turn cut short by a takeback stay in the history', () => {
+  const state = waitingForTakeback();
+  state.players[1].turnHints = { count: 1, penalty: 5 };
+  answerTakeback(state, 'boris', true);
+  assert.equal(state.players[1].turnHints, undefined);
+  const entry = state.moves![state.moves!.length - 1];
+  assert.deepEqual([entry.playerId, entry.type, entry.score], ['boris', 'adjustment', 0]);
+  assert.deepEqual(entry.meta, { reason: 'hints', hints: { count: 1, penalty: 5 } });
+});
+
+test('a chess-clock turn times out once the player is out of overtime', () => {
+  const state = afterPlay({ totalSeconds: 60 } as GameState['settings']);
+  state.players[1].timeBankMs = -60000;
+  assert.equal(turnDeadline(state), state.turnStart! - 60000 + MAX_OVERTIME_MS);
+  const turnStart = state.turnStart!;
+  assert.equal(applyTimeout(state, 'boris').valid, true);
+  assert.equal(state.currentPlayer, 'anna');
+  // The turn's time still counts as overtime
+  assert.ok(Math.abs(state.players[1].timeBankMs! + 60000 + (Date.now() - turnStart)) < 50);
+});
+
+test('a turn without a chess clock times out after the turn time', () => {
+  const state = afterPlay({ turnSeconds: 90 } as GameState['settings']);
+  assert.equal(turnDeadline(state), state.turnStart! + 90000);
+});
+
+test('a hint taken between passes does not stop the game from ending', () => {
+  const state = afterPlay();
+  const pass = (playerId: string): Move => ({ playerId, playerName: playerId, words: [], score: 0, turn: 0, timestamp: 0, type: 'skip' });
+  state.moves = [
+    pass('anna'), pass('boris'), pass('anna'),
+    { ...pass('boris'), type: 'adjustment', meta: { reason: 'hints', hints: { count: 1, penalty: 0 } } },
+    pass('boris'),
+  ];
+  assert.deepEqual(checkGameEnd(state), { ended: true, reason: 'all_skipped_twice' });
+});
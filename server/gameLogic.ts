@@ -1,5 +1,5 @@
-import { BOARD_SIZE, SPECIAL_SQUARES, SquareType, PlacedTile, BoardCell, TILE_VALUES } from "@shared/schema";
-import type { GameState, Move } from "@shared/schema";
+import { BOARD_SIZE, SPECIAL_SQUARES, SquareType, PlacedTile, BoardCell, TILE_VALUES, DEFAULT_GAME_SETTINGS, getGameSettings } from "@shared/schema";
+import type { GameState, Move, DictionaryPolicy, ChallengeRule, WordScore } from "@shared/schema";
 
 export interface WordInfo {
   word: string;
@@ -83,18 +83,32 @@ export function extractWordsFromBoard(board: BoardCell[][], placedTiles: PlacedT
   return words;
 }
 
+export interface ScoreBreakdown {
+  total: number;
+  words: WordScore[];
+  // Bonus for using all seven tiles (0 otherwise)
+  bingo: number;
+}
+
+/**
+ * Score a play: every word it forms, with letter and word squares counting
+ * only under newly placed tiles, plus the bingo bonus for all seven tiles.
+ */
 export function calculateScore(
   words: WordInfo[],
   board: BoardCell[][],
-  placedTiles: PlacedTile[]
-): number {
-  if (words.length === 0) return 0;
+  placedTiles: PlacedTile[],
+  bingoBonus: number = DEFAULT_GAME_SETTINGS.bingoBonus
+): ScoreBreakdown {
+  if (words.length === 0) return { total: 0, words: [], bingo: 0 };
 
   let totalScore = 0;
+  const wordScores: WordScore[] = [];
   const placedSet = new Set(placedTiles.map(t => `${t.row},${t.col}`));
 
   for (const { word, positions } of words) {
-    let wordScore = 0;
+    let base = 0;
+    let letterBonus = 0;
     let wordMultiplier = 1;
 
     for (const { row, col } of positions) {
@@ -105,37 +119,33 @@ export function calculateScore(
       const letter = cell.letter;
       const baseValue = cell.blank ? 0 : (TILE_VALUES[letter] ?? 0);
 
+      base += baseValue;
       if (isNewTile) {
         // Check for special squares
         const squareType = getSquareType(row, col);
         if (squareType === 'TW') {
           wordMultiplier *= 3;
-          wordScore += baseValue;
         } else if (squareType === 'DW' || squareType === 'START') {
           // START (center) counts as a double-word for the first move
           wordMultiplier *= 2;
-          wordScore += baseValue;
         } else if (squareType === 'TL') {
-          wordScore += baseValue * 3;
+          letterBonus += baseValue * 2;
         } else if (squareType === 'DL') {
-          wordScore += baseValue * 2;
-        } else {
-          wordScore += baseValue;
+          letterBonus += baseValue;
         }
-      } else {
-        wordScore += baseValue;
       }
     }
 
-    totalScore += wordScore * wordMultiplier;
+    const score = (base + letterBonus) * wordMultiplier;
+    wordScores.push({ word, base, letterBonus, wordMultiplier, score });
+    totalScore += score;
   }
 
   // Bonus for using all 7 tiles
-  if (placedTiles.length === 7) {
-    totalScore += 50;
-  }
+  const bingo = placedTiles.length === 7 ? bingoBonus : 0;
+  totalScore += bingo;
 
-  return totalScore;
+  return { total: totalScore, words: wordScores, bingo };
 }
 
 function getSquareType(row: number, col: number): SquareType {
@@ -172,19 +182,23 @@ export function validatePlacement(board: BoardCell[][], placedTiles: PlacedTile[
     return { valid: false, error: 'Фишки должны быть размещены в одну линию' };
   }
 
-  // Check if tiles are contiguous
+  // Check if tiles are contiguous (gaps may be filled by tiles already on the board)
   if (allSameRow) {
     const sortedCols = [...cols].sort((a, b) => a - b);
     for (let i = 1; i < sortedCols.length; i++) {
-      if (sortedCols[i] - sortedCols[i - 1] > 1) {
-        return { valid: false, error: 'Фишки должны быть размещены подряд' };
+      for (let col = sortedCols[i - 1] + 1; col < sortedCols[i]; col++) {
+        if (!board[rows[0]][col]) {
+          return { valid: false, error: 'Фишки должны быть размещены подряд' };
+        }
       }
     }
   } else {
     const sortedRows = [...rows].sort((a, b) => a - b);
     for (let i = 1; i < sortedRows.length; i++) {
-      if (sortedRows[i] - sortedRows[i - 1] > 1) {
-        return { valid: false, error: 'Фишки должны быть размещены подряд' };
+      for (let row = sortedRows[i - 1] + 1; row < sortedRows[i]; row++) {
+        if (!board[row][cols[0]]) {
+          return { valid: false, error: 'Фишки должны быть размещены подряд' };
+        }
       }
     }
   }
@@ -219,34 +233,706 @@ export function validatePlacement(board: BoardCell[][], placedTiles: PlacedTile[
 }
 
 /**
- * Check if the game has ended
+ * ID of the player who moves after `playerId` (wraps around)
+ */
+export function nextPlayerId(gameState: GameState, playerId: string): string | null {
+  if (gameState.players.length === 0) return null;
+  const currentIndex = gameState.players.findIndex(p => p.id === playerId);
+  const nextIndex = (currentIndex + 1) % gameState.players.length;
+  return gameState.players[nextIndex].id;
+}
+
+/**
+ * Hand the turn from `playerId` to the next player (in place). Players who
+ * forfeited their turn sit it out with a recorded skip.
+ */
+export function passTurn(gameState: GameState, playerId: string) {
+  recordHints(gameState, playerId);
+  chargeClock(gameState);
+  gameState.currentPlayer = nextPlayerId(gameState, playerId);
+  gameState.turn += 1;
+  gameState.turnStart = Date.now();
+  applyForfeits(gameState);
+}
+
+/**
+ * Note the hints `playerId` took this turn on the move that ends it (in
+ * place). A turn that ends without a move of theirs (cut short by a
+ * takeback, or by leaving the game) gets a zero-score 'adjustment' entry
+ * holding them.
+ */
+export function recordHints(gameState: GameState, playerId: string) {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player?.turnHints) return;
+  gameState.moves = gameState.moves || [];
+  const move = gameState.moves[gameState.moves.length - 1];
+  if (move?.playerId === playerId && !move.meta?.hints) {
+    move.meta = { ...move.meta, hints: player.turnHints };
+  } else {
+    gameState.moves.push({
+      playerId,
+      playerName: player.name,
+      words: [],
+      score: 0,
+      turn: gameState.turn,
+      timestamp: Date.now(),
+      type: 'adjustment',
+      meta: { reason: 'hints', hints: player.turnHints },
+    });
+  }
+  delete player.turnHints;
+}
+
+/**
+ * Take the time spent on the running turn off the current player's chess
+ * clock (in place). Time spent paused or deciding on a takeback does not
+ * count: resuming, or settling the takeback, moves `turnStart` forward by
+ * that long.
+ */
+export function chargeClock(gameState: GameState, now = Date.now()) {
+  if (!getGameSettings(gameState).totalSeconds || !gameState.turnStart) return;
+  const player = gameState.players.find(p => p.id === gameState.currentPlayer);
+  if (!player || player.timeBankMs === undefined) return;
+  player.timeBankMs -= Math.max(0, clockStoppedAt(gameState, now) - gameState.turnStart);
+}
+
+// When the running turn's time stopped (a pause, or a takeback waiting for
+// answers); `now` while it runs
+function clockStoppedAt(gameState: GameState, now: number): number {
+  if (gameState.paused && gameState.pausedAt) return gameState.pausedAt;
+  return gameState.pendingTakeback?.requestedAt ?? now;
+}
+
+/**
+ * Skip the current player while they owe a forfeited turn (in place).
+ */
+export function applyForfeits(gameState: GameState) {
+  const forfeits = gameState.forfeitTurns;
+  if (!forfeits || forfeits.length === 0) return;
+  for (let i = 0; i < gameState.players.length; i++) {
+    const id = gameState.currentPlayer;
+    if (!id || !forfeits.includes(id)) break;
+    forfeits.splice(forfeits.indexOf(id), 1);
+    const player = gameState.players.find(p => p.id === id);
+    gameState.moves = gameState.moves || [];
+    gameState.moves.push({
+      playerId: id,
+      playerName: player?.name || '',
+      words: [],
+      score: 0,
+      turn: gameState.turn + 1,
+      timestamp: Date.now(),
+      type: 'skip',
+      meta: { reason: 'challenge_failed', rackBefore: player ? [...player.rack] : [] }
+    });
+    recordHints(gameState, id);
+    gameState.currentPlayer = nextPlayerId(gameState, id);
+    gameState.turn += 1;
+  }
+}
+
+/**
+ * Fill empty rack slots from the front of the bag. Returns the drawn letters.
+ */
+export function refillRack(rack: (string | null)[], tileBag: string[]): string[] {
+  const drawn: string[] = [];
+  for (let i = 0; i < rack.length; i++) {
+    if (rack[i] === null && tileBag.length > 0) {
+      const tile = tileBag.shift()!;
+      rack[i] = tile;
+      drawn.push(tile);
+    }
+  }
+  return drawn;
+}
+
+export interface PlayOptions {
+  // Dictionary lookup; when omitted words are not checked
+  isWordValid?: (word: string) => boolean;
+  dictionaryPolicy?: DictionaryPolicy;
+  // When set, opponents may challenge the play for this long
+  challengeWindowMs?: number;
+}
+
+export interface PlayResult {
+  valid: boolean;
+  error?: string;
+  invalidWords?: string[];
+  move?: Move;
+}
+
+/**
+ * Validate and apply a play submitted by `playerId` to the game state (in place).
+ * The server is the only party that touches the board, racks, bag and scores:
+ * the client sends only the tiles it wants to put down.
+ */
+export function applyPlay(
+  gameState: GameState,
+  playerId: string,
+  placedTiles: PlacedTile[],
+  options: PlayOptions = {}
+): PlayResult {
+  const { isWordValid, dictionaryPolicy = 'reject', challengeWindowMs = 0 } = options;
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (gameState.currentPlayer !== playerId) {
+    return { valid: false, error: 'Сейчас не ваш ход' };
+  }
+
+  // Normalize the incoming tiles; blanks must carry the letter they stand for
+  const tiles: PlacedTile[] = [];
+  const seen = new Set<string>();
+  for (const t of placedTiles) {
+    const row = Number(t.row);
+    const col = Number(t.col);
+    const letter = String(t.letter || '').toUpperCase();
+    if (!Number.isInteger(row) || !Number.isInteger(col)) {
+      return { valid: false, error: 'Фишка размещена вне доски' };
+    }
+    if (letter === '?' || TILE_VALUES[letter] === undefined) {
+      return { valid: false, error: 'Недопустимая буква' };
+    }
+    const key = `${row},${col}`;
+    if (seen.has(key)) {
+      return { valid: false, error: 'Клетка уже занята' };
+    }
+    seen.add(key);
+    tiles.push({ row, col, letter, blank: !!t.blank });
+  }
+
+  // Every tile must come from the player's rack (blanks consume a '?')
+  const rack = [...player.rack];
+  for (const t of tiles) {
+    const needed = t.blank ? '?' : t.letter;
+    const idx = rack.findIndex(r => r === needed);
+    if (idx === -1) {
+      return { valid: false, error: 'Этих фишек нет на вашей подставке' };
+    }
+    rack[idx] = null;
+  }
+
+  const placement = validatePlacement(gameState.board, tiles);
+  if (!placement.valid) {
+    return { valid: false, error: placement.error };
+  }
+
+  const board = gameState.board.map(row => [...row]);
+  for (const t of tiles) {
+    board[t.row][t.col] = { letter: t.letter, blank: !!t.blank };
+  }
+
+  const words = extractWordsFromBoard(board, tiles);
+  if (words.length === 0) {
+    return { valid: false, error: 'Не найдено слов!' };
+  }
+
+  const invalidWords = isWordValid ? words.map(w => w.word).filter(w => !isWordValid(w)) : [];
+  if (invalidWords.length > 0 && dictionaryPolicy === 'reject') {
+    return { valid: false, error: `Недопустимые слова: ${invalidWords.join(', ')}`, invalidWords };
+  }
+
+  const breakdown = calculateScore(words, board, tiles, getGameSettings(gameState).bingoBonus);
+  const score = breakdown.total;
+
+  // Keep what a successful challenge needs to take the play back
+  const rackBefore = [...player.rack];
+  gameState.board = board;
+  player.rack = rack;
+  const drawn = refillRack(player.rack, gameState.tileBag);
+  player.score += score;
+  if (gameState.previews) delete gameState.previews[playerId];
+
+  const meta: Record<string, any> = { placedTiles: tiles, rackBefore, drawn };
+  if (invalidWords.length > 0) {
+    meta.invalidWords = invalidWords;
+    meta.flagged = true;
+  }
+
+  const move: Move = {
+    playerId,
+    playerName: player.name,
+    words: words.map(w => w.word),
+    score,
+    wordScores: breakdown.words,
+    bingo: breakdown.bingo || undefined,
+    turn: gameState.turn + 1,
+    timestamp: Date.now(),
+    type: 'play',
+    meta
+  };
+  gameState.moves = gameState.moves || [];
+  gameState.moves.push(move);
+
+  // A new play closes any dispute over the previous one
+  gameState.pendingChallenge = null;
+  dropTakeback(gameState);
+  if (challengeWindowMs > 0) {
+    gameState.pendingChallenge = {
+      moveIndex: gameState.moves.length - 1,
+      playerId,
+      words: move.words,
+      openedAt: move.timestamp,
+      expiresAt: move.timestamp + challengeWindowMs
+    };
+  }
+  passTurn(gameState, playerId);
+
+  return { valid: true, move };
+}
+
+/**
+ * Pass the turn without playing (in place). The move records the rack the
+ * player held so a replay can show it.
+ */
+export function applySkip(gameState: GameState, playerId: string, meta: Record<string, any> | null = null): PlayResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (gameState.currentPlayer !== playerId) {
+    return { valid: false, error: 'Сейчас не ваш ход' };
+  }
+
+  if (gameState.previews) delete gameState.previews[playerId];
+
+  const move: Move = {
+    playerId,
+    playerName: player.name,
+    words: [],
+    score: 0,
+    turn: gameState.turn + 1,
+    timestamp: Date.now(),
+    type: 'skip',
+    meta: { ...meta, rackBefore: [...player.rack] }
+  };
+  gameState.moves = gameState.moves || [];
+  gameState.moves.push(move);
+  gameState.pendingChallenge = null;
+  dropTakeback(gameState);
+  passTurn(gameState, playerId);
+
+  return { valid: true, move };
+}
+
+// How far a chess-clock player may run over their time bank, in all, before
+// their turns time out as under a turn time limit
+export const MAX_OVERTIME_MS = 10 * 60 * 1000;
+
+/**
+ * When the running turn times out: `turnSeconds` after it started or, with a
+ * chess clock, once the player is MAX_OVERTIME_MS over their time bank.
+ * Null while no turn is running.
+ */
+export function turnDeadline(gameState: GameState): number | null {
+  if (!gameState.currentPlayer || !gameState.turnStart) return null;
+  const { turnSeconds, totalSeconds } = getGameSettings(gameState);
+  if (!totalSeconds) return gameState.turnStart + turnSeconds * 1000;
+  const player = gameState.players.find(p => p.id === gameState.currentPlayer);
+  if (!player || player.timeBankMs === undefined) return null;
+  return gameState.turnStart + player.timeBankMs + MAX_OVERTIME_MS;
+}
+
+/**
+ * End the turn of `playerId` whose time ran out (in place). Under the
+ * 'penalty' timeout rule the player also loses `timeoutPenalty` points.
+ */
+export function applyTimeout(gameState: GameState, playerId: string): PlayResult {
+  // The turn's time stands still until the takeback is settled
+  if (gameState.pendingTakeback) {
+    return { valid: false, error: 'Ожидается ответ на запрос отмены хода' };
+  }
+  const { timeoutAction, timeoutPenalty } = getGameSettings(gameState);
+  const penalty = timeoutAction === 'penalty' ? timeoutPenalty : 0;
+  const result = applySkip(gameState, playerId, penalty > 0 ? { reason: 'timeout', penalty } : { reason: 'timeout' });
+  if (result.valid && penalty > 0) {
+    const player = gameState.players.find(p => p.id === playerId)!;
+    player.score -= penalty;
+    result.move!.score = -penalty;
+  }
+  return result;
+}
+
+/**
+ * Swap `letters` from the player's rack for new tiles from the bag and pass
+ * the turn (in place). Replacements are drawn before the discarded tiles go
+ * back, so a player never draws their own tiles straight back.
+ */
+export function applyExchange(gameState: GameState, playerId: string, letters: string[]): PlayResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (gameState.currentPlayer !== playerId) {
+    return { valid: false, error: 'Сейчас не ваш ход' };
+  }
+  if (letters.length === 0) {
+    return { valid: false, error: 'Не выбраны фишки для обмена' };
+  }
+  if (gameState.tileBag.length === 0) {
+    return { valid: false, error: 'Мешок пуст — обмен невозможен' };
+  }
+  if (gameState.tileBag.length < 7 && !getGameSettings(gameState).exchangeUnderSeven) {
+    return { valid: false, error: 'В мешке меньше 7 фишек — обмен запрещён' };
+  }
+
+  const rackBefore = [...player.rack];
+  const rack = [...player.rack];
+  const discarded: string[] = [];
+  for (const letter of letters) {
+    const idx = rack.findIndex(r => r === letter);
+    if (idx === -1) {
+      return { valid: false, error: 'Этих фишек нет на вашей подставке' };
+    }
+    rack[idx] = null;
+    discarded.push(letter);
+  }
+
+  player.rack = rack;
+  const drawn = refillRack(player.rack, gameState.tileBag);
+  gameState.tileBag.push(...discarded);
+  for (let i = gameState.tileBag.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [gameState.tileBag[i], gameState.tileBag[j]] = [gameState.tileBag[j], gameState.tileBag[i]];
+  }
+
+  if (gameState.previews) delete gameState.previews[playerId];
+
+  const move: Move = {
+    playerId,
+    playerName: player.name,
+    words: [],
+    score: 0,
+    turn: gameState.turn + 1,
+    timestamp: Date.now(),
+    type: 'exchange',
+    meta: { discarded, rackBefore, drawn }
+  };
+  gameState.moves = gameState.moves || [];
+  gameState.moves.push(move);
+  gameState.pendingChallenge = null;
+  dropTakeback(gameState);
+  passTurn(gameState, playerId);
+
+  return { valid: true, move };
+}
+
+/**
+ * Pause or resume the game for everyone (in place). Resuming moves
+ * `turnStart` forward by the length of the pause, so neither the turn timer
+ * nor the chess clock counts it.
+ */
+export function applyPause(gameState: GameState, playerId: string, paused: boolean): { valid: boolean; error?: string } {
+  if (!gameState.players.some(p => p.id === playerId)) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (!!gameState.paused === paused) return { valid: true };
+  if (gameState.pendingTakeback) {
+    return { valid: false, error: 'Сначала нужно ответить на запрос отмены хода' };
+  }
+
+  const now = Date.now();
+  if (paused) {
+    gameState.paused = true;
+    gameState.pausedBy = playerId;
+    gameState.pausedAt = now;
+  } else {
+    const pausedAt = gameState.pausedAt ?? now;
+    gameState.turnStart = gameState.turnStart ? gameState.turnStart + (now - pausedAt) : now;
+    gameState.paused = false;
+    gameState.pausedBy = null;
+    gameState.pausedAt = null;
+  }
+  return { valid: true };
+}
+
+export interface ChallengeOptions {
+  isWordValid: (word: string) => boolean;
+  rule: ChallengeRule;
+  // Points a failed challenge costs the challenger
+  penaltyPoints?: number;
+}
+
+export interface ChallengeResult {
+  valid: boolean;
+  error?: string;
+  // True when the play was withdrawn
+  upheld?: boolean;
+  invalidWords?: string[];
+}
+
+/**
+ * `challengerId` disputes the play in `gameState.pendingChallenge` (in place).
+ * If any of its words is not in the dictionary the play is taken back: tiles
+ * return to the mover's rack, drawn tiles go back on top of the bag and the
+ * move becomes a zero-score 'challenged' entry. Otherwise the challenger pays
+ * the penalty (points, and under the double rule their next turn).
  */
-export function checkGameEnd(gameState: GameState): { ended: boolean; reason?: string; winnerId?: string } {
+export function resolveChallenge(gameState: GameState, challengerId: string, options: ChallengeOptions): ChallengeResult {
+  const { isWordValid, rule, penaltyPoints = 0 } = options;
+  const pending = gameState.pendingChallenge;
+  if (rule === 'none') {
+    return { valid: false, error: 'Оспаривание ходов отключено' };
+  }
+  if (!pending || (pending.expiresAt !== undefined && Date.now() > pending.expiresAt)) {
+    return { valid: false, error: 'Время на оспаривание истекло' };
+  }
+  const challenger = gameState.players.find(p => p.id === challengerId);
+  if (!challenger) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (pending.playerId === challengerId) {
+    return { valid: false, error: 'Нельзя оспорить собственный ход' };
+  }
+  const move = (gameState.moves || [])[pending.moveIndex];
+  const mover = gameState.players.find(p => p.id === pending.playerId);
+  const meta = move?.meta || {};
+  if (!move || move.type !== 'play' || !mover || !Array.isArray(meta.placedTiles) || !Array.isArray(meta.rackBefore)) {
+    return { valid: false, error: 'Этот ход нельзя оспорить' };
+  }
+
+  gameState.pendingChallenge = null;
+  const invalidWords = move.words.filter(w => !isWordValid(w));
+
+  if (invalidWords.length > 0) {
+    const board = gameState.board.map(row => [...row]);
+    for (const t of meta.placedTiles as PlacedTile[]) board[t.row][t.col] = null;
+    gameState.board = board;
+    mover.rack = [...meta.rackBefore];
+    gameState.tileBag.unshift(...(meta.drawn || []));
+    mover.score -= move.score;
+
+    move.meta = { ...meta, originalScore: move.score, invalidWords, challenge: { by: challengerId, upheld: true } };
+    move.type = 'challenged';
+    move.score = 0;
+    dropTakeback(gameState);
+    return { valid: true, upheld: true, invalidWords };
+  }
+
+  challenger.score -= penaltyPoints;
+  move.meta = { ...meta, challenge: { by: challengerId, upheld: false, penalty: penaltyPoints } };
+  if (rule === 'double') {
+    if (gameState.currentPlayer === challengerId) {
+      applySkip(gameState, challengerId, { reason: 'challenge_failed' });
+    } else {
+      gameState.forfeitTurns = [...(gameState.forfeitTurns || []), challengerId];
+    }
+  }
+  return { valid: true, upheld: false, invalidWords: [] };
+}
+
+export interface TakebackResult {
+  valid: boolean;
+  error?: string;
+  // True when the play was taken back
+  applied?: boolean;
+}
+
+// Players whose consent `playerId` needs to take a play back: the other
+// humans (bots always agree)
+function takebackApprovers(gameState: GameState, playerId: string): string[] {
+  return gameState.players.filter(p => p.id !== playerId && !p.bot).map(p => p.id);
+}
+
+/**
+ * `playerId` asks to take back their play, which must be the last move of
+ * the game (in place). Without human opponents it is taken back at once;
+ * otherwise it waits in `gameState.pendingTakeback` for their answers, with
+ * the clocks stopped. Asking again for the same play re-checks the answers.
+ */
+export function requestTakeback(gameState: GameState, playerId: string): TakebackResult {
+  if (!gameState.players.some(p => p.id === playerId)) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  const moves = gameState.moves || [];
+  const moveIndex = moves.length - 1;
+  const move = moves[moveIndex];
+  if (!move || move.playerId !== playerId || move.type !== 'play' || !Array.isArray(move.meta?.placedTiles) || !Array.isArray(move.meta?.rackBefore)) {
+    return { valid: false, error: 'Можно отменить только свой последний ход' };
+  }
+  const pending = gameState.pendingTakeback;
+  if (!pending || pending.moveIndex !== moveIndex) {
+    gameState.pendingTakeback = { moveIndex, playerId, words: move.words, requestedAt: Date.now(), approvedBy: [] };
+  }
+  return settleTakeback(gameState);
+}
+
+/**
+ * An opponent agrees to or refuses the pending takeback (in place). The play
+ * is taken back once every other human player has agreed; one refusal
+ * drops the request.
+ */
+export function answerTakeback(gameState: GameState, playerId: string, approve: boolean): TakebackResult {
+  const pending = gameState.pendingTakeback;
+  if (!pending) {
+    return { valid: false, error: 'Нет запроса на отмену хода' };
+  }
+  if (pending.playerId === playerId) {
+    return { valid: false, error: 'Нельзя ответить на собственный запрос' };
+  }
+  if (!takebackApprovers(gameState, pending.playerId).includes(playerId)) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (!approve) {
+    dropTakeback(gameState);
+    return { valid: true, applied: false };
+  }
+  if (!pending.approvedBy.includes(playerId)) pending.approvedBy.push(playerId);
+  return settleTakeback(gameState);
+}
+
+/**
+ * Drop the pending takeback, if any (in place). The running turn's time
+ * stood still while it was open, so `turnStart` moves forward by that long.
+ */
+export function dropTakeback(gameState: GameState, now = Date.now()) {
+  const pending = gameState.pendingTakeback;
+  if (!pending) return;
+  if (gameState.turnStart) gameState.turnStart += Math.max(0, now - pending.requestedAt);
+  gameState.pendingTakeback = null;
+}
+
+// Take the pending play back once everyone has agreed: its tiles return to
+// the mover's rack, drawn tiles go back on top of the bag, the score is
+// undone and the mover has the turn again. The move stays in the history
+// as a zero-score 'takeback' entry.
+function settleTakeback(gameState: GameState): TakebackResult {
+  const pending = gameState.pendingTakeback!;
+  if (takebackApprovers(gameState, pending.playerId).some(id => !pending.approvedBy.includes(id))) {
+    return { valid: true, applied: false };
+  }
+  gameState.pendingTakeback = null;
+  const move = (gameState.moves || [])[pending.moveIndex];
+  const mover = gameState.players.find(p => p.id === pending.playerId);
+  if (!move || move.type !== 'play' || !mover) {
+    return { valid: false, error: 'Этот ход нельзя отменить' };
+  }
+
+  const meta = move.meta!;
+  const board = gameState.board.map(row => [...row]);
+  for (const t of meta.placedTiles as PlacedTile[]) board[t.row][t.col] = null;
+  gameState.board = board;
+  mover.rack = [...meta.rackBefore];
+  gameState.tileBag.unshift(...(meta.drawn || []));
+  mover.score -= move.score;
+
+  move.meta = { ...meta, originalScore: move.score, takeback: { approvedBy: pending.approvedBy } };
+  move.type = 'takeback';
+  move.score = 0;
+  if (gameState.pendingChallenge?.moveIndex === pending.moveIndex) gameState.pendingChallenge = null;
+
+  // The turn cut short keeps its hints; its clock stopped when the
+  // takeback was asked for
+  if (gameState.currentPlayer) recordHints(gameState, gameState.currentPlayer);
+  chargeClock(gameState, pending.requestedAt);
+  gameState.currentPlayer = mover.id;
+  gameState.turn += 1;
+  gameState.turnStart = Date.now();
+  return { valid: true, applied: true };
+}
+
+/**
+ * Check if the game has ended. `outPlayerId` is the player who used up all
+ * their tiles with the bag empty, if that is how it ended.
+ */
+export function checkGameEnd(gameState: GameState): { ended: boolean; reason?: string; outPlayerId?: string } {
   // Check if any player has no tiles and bag is empty
   for (const player of gameState.players) {
     const hasTiles = player.rack.some(t => t !== null);
     if (!hasTiles && gameState.tileBag.length === 0) {
-      // Find winner (highest score)
-      const winner = gameState.players.reduce((prev, curr) => 
-        curr.score > prev.score ? curr : prev
-      );
-      return { ended: true, reason: 'player_out_of_tiles', winnerId: winner.id };
+      return { ended: true, reason: 'player_out_of_tiles', outPlayerId: player.id };
     }
   }
 
-  // Check if all players skipped twice in a row
-  const moves = gameState.moves || [];
+  // Check if all players skipped twice in a row; hints of a turn without a
+  // move ('adjustment' entries) do not break the run
+  const moves = (gameState.moves || []).filter(m => m.type !== 'adjustment');
   if (moves.length >= gameState.players.length * 2) {
     const recentMoves = moves.slice(-gameState.players.length * 2);
     const allSkips = recentMoves.every(m => m.type === 'skip');
     if (allSkips) {
-      // Find winner (highest score)
-      const winner = gameState.players.reduce((prev, curr) => 
-        curr.score > prev.score ? curr : prev
-      );
-      return { ended: true, reason: 'all_skipped_twice', winnerId: winner.id };
+      return { ended: true, reason: 'all_skipped_twice' };
     }
   }
 
   return { ended: false };
 }
+
+function rackValue(rack: (string | null)[]): number {
+  return rack.reduce((sum, t) => sum + (t ? TILE_VALUES[t] ?? 0 : 0), 0);
+}
+
+/**
+ * Settle the racks at the end of the game (in place): everyone loses the value
+ * of the tiles left on their rack and the player who went out, if any, gains
+ * the sum of the opponents' racks. In chess-clock games players who ran over
+ * their time bank lose `overtimePenalty` points per started minute. Each
+ * change is recorded as an 'adjustment' move.
+ */
+export function applyEndGameScoring(gameState: GameState, outPlayerId?: string) {
+  gameState.moves = gameState.moves || [];
+  const adjust = (playerId: string, score: number, meta: Record<string, any>) => {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player || score === 0) return;
+    player.score += score;
+    gameState.moves!.push({
+      playerId,
+      playerName: player.name,
+      words: [],
+      score,
+      turn: gameState.turn,
+      timestamp: Date.now(),
+      type: 'adjustment',
+      meta
+    });
+  };
+
+  const leftovers: string[] = [];
+  let bonus = 0;
+  for (const player of gameState.players) {
+    if (player.id === outPlayerId) continue;
+    const tiles = player.rack.filter((t): t is string => t !== null);
+    const value = rackValue(tiles);
+    adjust(player.id, -value, { reason: 'rack_penalty', tiles });
+    leftovers.push(...tiles);
+    bonus += value;
+  }
+  if (outPlayerId) adjust(outPlayerId, bonus, { reason: 'going_out_bonus', tiles: leftovers });
+
+  const { totalSeconds, overtimePenalty } = getGameSettings(gameState);
+  if (totalSeconds > 0) {
+    for (const player of gameState.players) {
+      if (player.timeBankMs === undefined || player.timeBankMs >= 0) continue;
+      const minutes = Math.ceil(-player.timeBankMs / 60000);
+      adjust(player.id, -minutes * overtimePenalty, { reason: 'overtime', minutes });
+    }
+  }
+}
+
+/**
+ * Players sharing the top score (more than one means a tie)
+ */
+export function findWinners(gameState: GameState): string[] {
+  if (gameState.players.length === 0) return [];
+  const top = Math.max(...gameState.players.map(p => p.score));
+  return gameState.players.filter(p => p.score === top).map(p => p.id);
+}
+
+/**
+ * End the game (in place) if it is over: settle the racks and record the
+ * winner, or all tied players. Returns whether the game ended.
+ */
+export function applyGameEnd(gameState: GameState): boolean {
+  const endCheck = checkGameEnd(gameState);
+  if (!endCheck.ended) return false;
+
+  applyEndGameScoring(gameState, endCheck.outPlayerId);
+  const winners = findWinners(gameState);
+  gameState.gameEnded = true;
+  gameState.endReason = endCheck.reason;
+  gameState.winnerIds = winners;
+  gameState.winnerId = winners.length === 1 ? winners[0] : undefined;
+  gameState.pendingChallenge = null;
+  return true;
+}
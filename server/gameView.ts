@@ -0,0 +1,99 @@
+import { BOARD_SIZE, TILE_DISTRIBUTION, type GameState, type Move, type PlacedTile } from "@shared/schema";
+
+type Previews = Record<string, PlacedTile[]>;
+
+// Longest spectator preview delay a room may ask for (see GameSettings)
+const MAX_PREVIEW_DELAY_MS = 600 * 1000;
+
+// Move meta that would reveal what was on a rack
+const RACK_META_KEYS = ['rackBefore', 'drawn', 'discarded'];
+
+/** Whether `viewerId` has a seat in the game */
+export function isSeated(state: GameState, viewerId: string | null | undefined): boolean {
+  return !!viewerId && state.players.some(p => p.id === viewerId);
+}
+
+function withoutRackMeta(move: Move): Move {
+  if (!move.meta || !RACK_META_KEYS.some(key => key in move.meta!)) return move;
+  const meta = { ...move.meta };
+  for (const key of RACK_META_KEYS) delete meta[key];
+  return { ...move, meta };
+}
+
+// Tiles `viewerId` has not seen: the full set minus the board and their own rack
+function unseenTiles(state: GameState, viewerId: string | null): Record<string, number> {
+  const unseen = { ...TILE_DISTRIBUTION };
+  const take = (letter: string) => { if (unseen[letter] > 0) unseen[letter]--; };
+  for (let r = 0; r < BOARD_SIZE; r++) {
+    for (let c = 0; c < BOARD_SIZE; c++) {
+      const cell = state.board[r]?.[c];
+      if (cell) take(cell.blank ? '?' : cell.letter);
+    }
+  }
+  for (const letter of state.players.find(p => p.id === viewerId)?.rack || []) {
+    if (letter) take(letter);
+  }
+  for (const letter of Object.keys(unseen)) if (unseen[letter] === 0) delete unseen[letter];
+  return unseen;
+}
+
+/**
+ * The game as `viewerId` may see it. The server alone holds the bag and the
+ * racks: a player sees their own rack, everyone else's only as a tile count,
+ * and the bag only as a count plus the letters they have not seen yet (bag
+ * and opponents' racks together). Rack contents recorded in other players'
+ * moves are dropped. Someone without a seat sees no rack at all; `previews`
+ * replaces the live previews when spectators are shown them with a delay,
+ * without tiles on squares that have since been played.
+ */
+export function redactGameState(state: GameState, viewerId: string | null, previews: Previews | undefined = state.previews): GameState {
+  const seated = isSeated(state, viewerId);
+  let shown = previews || {};
+  if (!seated) {
+    shown = {};
+    for (const [playerId, tiles] of Object.entries(previews || {})) {
+      const free = tiles.filter(t => !state.board[t.row]?.[t.col]);
+      if (free.length > 0) shown[playerId] = free;
+    }
+  }
+  return {
+    ...state,
+    players: state.players.map(p => (seated && p.id === viewerId ? p : { ...p, rack: [], tileCount: p.rack.filter(Boolean).length })),
+    tileBag: [],
+    bagCount: state.tileBag.length,
+    unseenTiles: unseenTiles(state, seated ? viewerId : null),
+    moves: state.moves?.map(m => (seated && m.playerId === viewerId ? m : withoutRackMeta(m))),
+    previews: shown,
+  };
+}
+
+/**
+ * Recent preview snapshots of each room, so spectators can be shown the
+ * previews as they were some time ago.
+ */
+export class PreviewHistory {
+  private log = new Map<string, { at: number; previews: Previews }[]>();
+
+  record(roomId: string, previews: Previews | undefined, at = Date.now()) {
+    const entries = this.log.get(roomId) || [];
+    const last = entries[entries.length - 1];
+    if (last && JSON.stringify(last.previews) === JSON.stringify(previews || {})) return;
+    entries.push({ at, previews: structuredClone(previews || {}) });
+    // Keep the newest snapshot older than the longest delay; drop the rest before it
+    while (entries.length > 1 && entries[1].at <= at - MAX_PREVIEW_DELAY_MS) entries.shift();
+    this.log.set(roomId, entries);
+  }
+
+  /** Previews as they were at `time`; none before anything was recorded */
+  at(roomId: string, time: number): Previews {
+    const entries = this.log.get(roomId) || [];
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].at <= time) return entries[i].previews;
+    }
+    return {};
+  }
+
+  forget(roomId: string) {
+    this.log.delete(roomId);
+  }
+}
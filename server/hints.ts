@@ -0,0 +1,45 @@
+import { getGameSettings, hintsUsed, type CandidatePlay, type GameState } from "@shared/schema";
+import { generateMoves } from "./moveGenerator";
+
+// Plays suggested per hint
+const HINT_PLAYS = 3;
+
+export interface HintResult {
+  valid: boolean;
+  error?: string;
+  // Best first; empty when the rack has no play
+  plays?: CandidatePlay[];
+}
+
+/**
+ * The best plays for `playerId`'s rack on the current board, on their own
+ * turn (in place). A hint that finds plays counts against the game's
+ * `hintLimit` and costs `hintPenalty` points; the turn's hints are recorded
+ * on the move that ends it.
+ */
+export function takeHint(gameState: GameState, playerId: string): HintResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { valid: false, error: 'Игрок не найден' };
+  }
+  if (gameState.currentPlayer !== playerId) {
+    return { valid: false, error: 'Сейчас не ваш ход' };
+  }
+  const { hintLimit, hintPenalty, bingoBonus } = getGameSettings(gameState);
+  if (hintLimit === 0) {
+    return { valid: false, error: 'Подсказки в этой партии отключены' };
+  }
+  if (hintsUsed(gameState, playerId) >= hintLimit) {
+    return { valid: false, error: 'Подсказки закончились' };
+  }
+
+  const plays = generateMoves(gameState.board, player.rack, { limit: HINT_PLAYS, bingoBonus });
+  if (plays.length === 0) return { valid: true, plays };
+
+  player.score -= hintPenalty;
+  player.turnHints = {
+    count: (player.turnHints?.count ?? 0) + 1,
+    penalty: (player.turnHints?.penalty ?? 0) + hintPenalty,
+  };
+  return { valid: true, plays };
+}
@@ -0,0 +1,289 @@
+import { BOARD_SIZE, TILE_VALUES, type BoardCell, type PlacedTile } from "@shared/schema";
+import { loadWordDictionary } from "./wordDictionary";
+import { calculateScore, type WordInfo } from "./gameLogic";
+import { buildDawg, type Dawg } from "./dawg";
+
+export interface CandidateMove {
+  tiles: PlacedTile[];
+  words: string[];
+  score: number;
+}
+
+export interface GenerateOptions {
+  // Keep only the best `limit` candidates
+  limit?: number;
+  minScore?: number;
+  // Only plays that put down at most this many tiles
+  maxTiles?: number;
+  // Bonus for playing all seven tiles (the match's GameSettings.bingoBonus)
+  bingoBonus?: number;
+}
+
+const LETTERS = Object.keys(TILE_VALUES).filter(l => l !== '?');
+
+let dawg: Dawg | null = null;
+
+/**
+ * Build (once) the word graph used for move generation. Words that use
+ * letters outside the tile set (e.g. Ё) can never be played and are skipped.
+ * Called at startup; otherwise built lazily on first use.
+ */
+export function initMoveGenerator(): Dawg {
+  if (dawg) return dawg;
+  const words: string[] = [];
+  for (const w of Array.from(loadWordDictionary())) {
+    const word = w.toUpperCase();
+    if (word.length < 2 || word.length > BOARD_SIZE) continue;
+    if (!Array.from(word).every(ch => LETTERS.includes(ch))) continue;
+    words.push(word);
+  }
+  dawg = buildDawg(words);
+  return dawg;
+}
+
+// A board seen along its rows; the transposed view turns columns into rows
+interface Line {
+  at(row: number, col: number): BoardCell;
+  toBoard(row: number, col: number): { row: number; col: number };
+}
+
+const rowsView = (board: BoardCell[][]): Line => ({
+  at: (r, c) => board[r][c],
+  toBoard: (row, col) => ({ row, col }),
+});
+
+const colsView = (board: BoardCell[][]): Line => ({
+  at: (r, c) => board[c][r],
+  toBoard: (row, col) => ({ row: col, col: row }),
+});
+
+/**
+ * Letters that may go on each empty square without breaking the word that
+ * crosses it. `null` means the square has no perpendicular neighbours.
+ */
+function computeCrossChecks(words: Dawg, line: Line): (Set<string> | null)[][] {
+  const checks: (Set<string> | null)[][] = [];
+  for (let r = 0; r < BOARD_SIZE; r++) {
+    checks.push([]);
+    for (let c = 0; c < BOARD_SIZE; c++) {
+      if (line.at(r, c)) {
+        checks[r].push(null);
+        continue;
+      }
+      let above = '';
+      for (let i = r - 1; i >= 0 && line.at(i, c); i--) above = line.at(i, c)!.letter + above;
+      let below = '';
+      for (let i = r + 1; i < BOARD_SIZE && line.at(i, c); i++) below += line.at(i, c)!.letter;
+      if (!above && !below) {
+        checks[r].push(null);
+        continue;
+      }
+      const prefix = words.walk(above);
+      const allowed = new Set<string>();
+      if (prefix !== -1) {
+        for (const [letter, next] of words.edges(prefix)) {
+          const end = words.walk(below, next);
+          if (end !== -1 && words.isTerminal(end)) allowed.add(letter);
+        }
+      }
+      checks[r].push(allowed);
+    }
+  }
+  return checks;
+}
+
+function isAnchor(line: Line, r: number, c: number): boolean {
+  if (line.at(r, c)) return false;
+  return (r > 0 && !!line.at(r - 1, c)) ||
+    (r < BOARD_SIZE - 1 && !!line.at(r + 1, c)) ||
+    (c > 0 && !!line.at(r, c - 1)) ||
+    (c < BOARD_SIZE - 1 && !!line.at(r, c + 1));
+}
+
+/**
+ * The words a play forms: the main word along the line plus one crossing
+ * word for every new tile that touches tiles across the line.
+ */
+function formedWords(line: Line, row: number, start: number, end: number, placed: Map<number, string>): WordInfo[] {
+  const letterAt = (r: number, c: number) => (r === row && placed.has(c) ? placed.get(c)! : line.at(r, c)?.letter);
+  const words: WordInfo[] = [];
+
+  let main = '';
+  const mainPositions: { row: number; col: number }[] = [];
+  for (let c = start; c <= end; c++) {
+    main += letterAt(row, c);
+    mainPositions.push(line.toBoard(row, c));
+  }
+  words.push({ word: main, positions: mainPositions });
+
+  for (const col of Array.from(placed.keys())) {
+    let top = row;
+    while (top > 0 && letterAt(top - 1, col)) top--;
+    let bottom = row;
+    while (bottom < BOARD_SIZE - 1 && letterAt(bottom + 1, col)) bottom++;
+    if (top === bottom) continue;
+    let word = '';
+    const positions: { row: number; col: number }[] = [];
+    for (let r = top; r <= bottom; r++) {
+      word += letterAt(r, col);
+      positions.push(line.toBoard(r, col));
+    }
+    words.push({ word, positions });
+  }
+  return words;
+}
+
+/**
+ * Enumerate plays along the rows of `line` (Appel & Jacobson): for every
+ * anchor square build a left part from the rack, then extend it rightwards
+ * through the word graph, respecting the cross-checks.
+ */
+function generateLineMoves(
+  words: Dawg,
+  board: BoardCell[][],
+  line: Line,
+  rack: Map<string, number>,
+  maxTiles: number,
+  bingoBonus: number | undefined,
+  found: (move: CandidateMove) => void
+) {
+  const checks = computeCrossChecks(words, line);
+  const empty = board.every(row => row.every(cell => !cell));
+  const center = Math.floor(BOARD_SIZE / 2);
+  // Rack tiles put down left of the anchor (columns known once complete) and
+  // tiles put down from the anchor rightwards
+  const left: { letter: string; blank: boolean }[] = [];
+  const right: { col: number; letter: string; blank: boolean }[] = [];
+
+  const take = (letter: string): boolean[] => {
+    const options: boolean[] = [];
+    if ((rack.get(letter) || 0) > 0) options.push(false);
+    if ((rack.get('?') || 0) > 0) options.push(true);
+    return options;
+  };
+
+  const use = (key: string, delta: number) => rack.set(key, rack.get(key)! + delta);
+
+  const record = (row: number, anchorCol: number, endCol: number) => {
+    const tiles: { col: number; letter: string; blank: boolean }[] = [
+      ...left.map((t, i) => ({ col: anchorCol - left.length + i, ...t })),
+      ...right,
+    ];
+    let start = anchorCol - left.length;
+    while (start > 0 && line.at(row, start - 1)) start--;
+    const placed = new Map(tiles.map(t => [t.col, t.letter]));
+    const wordInfos = formedWords(line, row, start, endCol, placed);
+
+    const boardTiles: PlacedTile[] = tiles.map(t => ({ ...line.toBoard(row, t.col), letter: t.letter, blank: t.blank }));
+    const next = board.map(r => [...r]);
+    for (const t of boardTiles) next[t.row][t.col] = { letter: t.letter, blank: t.blank };
+    found({ tiles: boardTiles, words: wordInfos.map(w => w.word), score: calculateScore(wordInfos, next, boardTiles, bingoBonus).total });
+  };
+
+  const extendRight = (node: number, row: number, col: number, anchorCol: number) => {
+    if (col >= BOARD_SIZE || !line.at(row, col)) {
+      if (words.isTerminal(node) && col > anchorCol) record(row, anchorCol, col - 1);
+    }
+    if (col >= BOARD_SIZE) return;
+
+    const cell = line.at(row, col);
+    if (cell) {
+      const next = words.child(node, cell.letter);
+      if (next !== -1) extendRight(next, row, col + 1, anchorCol);
+      return;
+    }
+
+    if (left.length + right.length >= maxTiles) return;
+    const check = checks[row][col];
+    for (const [letter, next] of words.edges(node)) {
+      if (check && !check.has(letter)) continue;
+      for (const blank of take(letter)) {
+        const key = blank ? '?' : letter;
+        use(key, -1);
+        right.push({ col, letter, blank });
+        extendRight(next, row, col + 1, anchorCol);
+        right.pop();
+        use(key, 1);
+      }
+    }
+  };
+
+  const leftPart = (node: number, row: number, anchorCol: number, limit: number) => {
+    extendRight(node, row, anchorCol, anchorCol);
+    if (limit === 0 || left.length + 1 >= maxTiles) return;
+    for (const [letter, next] of words.edges(node)) {
+      for (const blank of take(letter)) {
+        const key = blank ? '?' : letter;
+        use(key, -1);
+        left.push({ letter, blank });
+        leftPart(next, row, anchorCol, limit - 1);
+        left.pop();
+        use(key, 1);
+      }
+    }
+  };
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const anchor = empty ? (row === center && col === center) : isAnchor(line, row, col);
+      if (!anchor) continue;
+
+      if (col > 0 && line.at(row, col - 1)) {
+        // The left part is the run of tiles already on the board
+        let start = col - 1;
+        while (start > 0 && line.at(row, start - 1)) start--;
+        let node = words.root;
+        for (let c = start; c < col && node !== -1; c++) node = words.child(node, line.at(row, c)!.letter);
+        if (node !== -1) extendRight(node, row, col, col);
+        continue;
+      }
+
+      // Free squares to the left that are not anchors themselves
+      let limit = 0;
+      for (let c = col - 1; c >= 0 && !line.at(row, c) && !isAnchor(line, row, c); c--) limit++;
+      leftPart(words.root, row, col, limit);
+    }
+  }
+}
+
+function tileKey(tiles: PlacedTile[]): string {
+  return tiles
+    .map(t => `${t.row},${t.col},${t.letter},${t.blank ? 1 : 0}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Every legal play for `rack` (letters, `'?'` for a blank, `null` for empty
+ * slots) on `board`, scored with `calculateScore` and sorted best first.
+ * Blanks are tried as every letter and come back as `{ letter, blank: true }`.
+ */
+export function generateMoves(
+  board: BoardCell[][],
+  rack: (string | null)[],
+  opts: GenerateOptions = {}
+): CandidateMove[] {
+  const words = initMoveGenerator();
+  const counts = new Map<string, number>();
+  for (const t of rack) {
+    if (t) counts.set(t, (counts.get(t) || 0) + 1);
+  }
+  const maxTiles = opts.maxTiles ?? rack.length;
+
+  const seen = new Set<string>();
+  const moves: CandidateMove[] = [];
+  const record = (move: CandidateMove) => {
+    if (opts.minScore !== undefined && move.score < opts.minScore) return;
+    // A single tile can form words both ways and is found in both passes
+    const key = tileKey(move.tiles);
+    if (seen.has(key)) return;
+    seen.add(key);
+    moves.push(move);
+  };
+
+  generateLineMoves(words, board, rowsView(board), counts, maxTiles, opts.bingoBonus, record);
+  generateLineMoves(words, board, colsView(board), counts, maxTiles, opts.bingoBonus, record);
+
+  moves.sort((a, b) => b.score - a.score || b.tiles.length - a.tiles.length);
+  return opts.limit !== undefined ? moves.slice(0, opts.limit) : moves;
+}
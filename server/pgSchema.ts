@@ -0,0 +1,77 @@
+import { bigint, boolean, index, integer, jsonb, pgTable, primaryKey, text, uniqueIndex } from "drizzle-orm/pg-core";
+import type { Move, Player, PlayerStats, ArchivedGame } from "@shared/schema";
+import type { GameDiff } from "@shared/gameChannel";
+import type { GameLogEvent } from "@shared/gameLog";
+import type { RoomState } from "./dbSchema";
+
+// The tables of server/dbSchema.ts for the Postgres database at DATABASE_URL
+// (drizzle.config.ts, `npm run db:push`). Keep the two in step: same tables
+// and columns, with jsonb for JSON and bigint for millisecond timestamps.
+
+export const games = pgTable('games', {
+  roomId: text('room_id').primaryKey(),
+  version: integer('version').notNull(),
+  state: jsonb('state').$type<RoomState>().notNull(),
+  updatedAt: bigint('updated_at', { mode: 'number' }).notNull(),
+});
+
+export const players = pgTable('players', {
+  id: text('id').primaryKey(),
+  roomId: text('room_id').notNull().references(() => games.roomId, { onDelete: 'cascade' }),
+  seat: integer('seat').notNull(),
+  accountId: text('account_id'),
+  name: text('name').notNull(),
+  data: jsonb('data').$type<Player>().notNull(),
+}, table => [index('players_room_idx').on(table.roomId)]);
+
+export const moves = pgTable('moves', {
+  roomId: text('room_id').notNull().references(() => games.roomId, { onDelete: 'cascade' }),
+  seq: integer('seq').notNull(),
+  playerId: text('player_id').notNull(),
+  type: text('type'),
+  score: integer('score').notNull(),
+  data: jsonb('data').$type<Move>().notNull(),
+}, table => [primaryKey({ columns: [table.roomId, table.seq] })]);
+
+export const archivedGames = pgTable('archived_games', {
+  id: text('id').primaryKey(),
+  roomId: text('room_id'),
+  endedAt: bigint('ended_at', { mode: 'number' }).notNull(),
+  imported: boolean('imported').notNull().default(false),
+  data: jsonb('data').$type<ArchivedGame>().notNull(),
+}, table => [index('archived_games_ended_idx').on(table.endedAt)]);
+
+export const accounts = pgTable('accounts', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  nameKey: text('name_key').notNull(),
+  passwordHash: text('password_hash').notNull(),
+  createdAt: bigint('created_at', { mode: 'number' }).notNull(),
+}, table => [uniqueIndex('accounts_name_key_idx').on(table.nameKey)]);
+
+export const credentials = pgTable('credentials', {
+  playerId: text('player_id').primaryKey(),
+  passwordHash: text('password_hash').notNull(),
+});
+
+export const playerStats = pgTable('player_stats', {
+  accountId: text('account_id').primaryKey(),
+  data: jsonb('data').$type<PlayerStats>().notNull(),
+  updatedAt: bigint('updated_at', { mode: 'number' }).notNull(),
+});
+
+export const sessions = pgTable('sessions', {
+  tokenHash: text('token_hash').primaryKey(),
+  playerId: text('player_id').notNull(),
+  expiresAt: bigint('expires_at', { mode: 'number' }).notNull(),
+}, table => [index('sessions_player_idx').on(table.playerId)]);
+
+export const gameEvents = pgTable('game_events', {
+  roomId: text('room_id').notNull(),
+  seq: integer('seq').notNull(),
+  version: integer('version').notNull(),
+  at: bigint('at', { mode: 'number' }).notNull(),
+  type: text('type').notNull(),
+  event: jsonb('event').$type<GameLogEvent>().notNull(),
+  diff: jsonb('diff').$type<GameDiff>(),
+}, table => [primaryKey({ columns: [table.roomId, table.seq] })]);
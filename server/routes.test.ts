@@ -0,0 +1,77 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// In-memory rooms, no dictionary: set before the routes and storage load
+process.env.USE_FILE_STORAGE = 'false';
+process.env.USE_SQLITE_STORAGE = 'false';
+process.env.USE_WORD_FILE = 'false';
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+function post(path: string, body: unknown, cookie?: string) {
+  return fetch(base + path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+// Join a room (the shared one by default) and return the session cookie
+async function join(playerName: string, prefix = '/api/game'): Promise<{ playerId: string; cookie: string }> {
+  const resp = await post(`${prefix}/join`, { playerName, password: 'секрет' });
+  assert.equal(resp.status, 200);
+  const { playerId } = await resp.json();
+  return { playerId, cookie: resp.headers.get('set-cookie')!.split(';')[0] };
+}
+
+test('a room cannot be created without a session', async () => {
+  const resp = await post('/api/rooms', { name: 'Без входа' });
+  assert.equal(resp.status, 401);
+});
+
+test('a signed-in player can create a room', async () => {
+  const { cookie } = await join('Анна');
+  const resp = await post('/api/rooms', { name: 'Вечерняя' }, cookie);
+  assert.equal(resp.status, 200);
+  const { roomId, room } = await resp.json();
+  assert.equal(room.name, 'Вечерняя');
+  const list = await (await fetch(`${base}/api/rooms`)).json();
+  assert.ok(list.some((r: { id: string }) => r.id === roomId));
+});
+
+test('a player leaving may close a run of passes', async () => {
+  const { cookie } = await join('Вера');
+  const { roomId } = await (await post('/api/rooms', {}, cookie)).json();
+  const prefix = `/api/rooms/${roomId}`;
+  const players = [await join('Глеб', prefix), await join('Дина', prefix)];
+  for (const p of players) await post(`${prefix}/ready`, { playerId: p.playerId, ready: true }, p.cookie);
+  let state = (await (await post(`${prefix}/start`, {}, players[0].cookie)).json()).gameState;
+
+  // Three passes: one short of the four that end a game of two
+  for (let i = 0; i < 3; i++) {
+    const current = players.find(p => p.playerId === state.currentPlayer)!;
+    state = (await (await post(`${prefix}/skip`, { playerId: current.playerId }, current.cookie)).json()).gameState;
+  }
+  assert.equal(state.gameEnded, false);
+
+  // The player left alone has passed twice in a row
+  const leaving = players.find(p => p.playerId === state.currentPlayer)!;
+  const resp = await (await post(`${prefix}/leave`, { playerId: leaving.playerId }, leaving.cookie)).json();
+  assert.equal(resp.gameState.gameEnded, true);
+  assert.equal(resp.gameState.endReason, 'all_skipped_twice');
+});
@@ -1,11 +1,24 @@
-import type { Express } from "express";
+import { Router, type Express, type Request, type Response } from "express";
 import net from 'net';
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from 'ws';
-import { storage } from "./storage";
-import { BOARD_SIZE, TILE_DISTRIBUTION, MOVE_TIME, type GameState, type Player, gameStateSchema } from "@shared/schema";
-import { extractWordsFromBoard, calculateScore, checkGameEnd } from "./gameLogic";
+import { storage, DEFAULT_ROOM_ID, isValidRoomId, StaleStateError } from "./storage";
+import type { GameEvent, GameChannelClientMessage } from "@shared/gameChannel";
+import { moveEvent, type GameLogEvent } from "@shared/gameLog";
+import { BOARD_SIZE, TILE_DISTRIBUTION, DEFAULT_GAME_SETTINGS, getGameSettings, type ArchivedGame, type ArchivedGameSummary, type GameAnalysis, type GameState, type GameSettings, type Player, type PlayerInfo, type DictionaryPolicy, type ChallengeRule, type RoomSummary, type BotLevel, gameSettingsSchema } from "@shared/schema";
+import { applyPlay, applySkip, applyExchange, applyTimeout, applyPause, resolveChallenge, requestTakeback, answerTakeback, dropTakeback, recordHints, applyGameEnd, turnDeadline, type PlayResult } from "./gameLogic";
+import { chooseBotAction, BOT_NAMES } from "./bot";
+import { initMoveGenerator } from "./moveGenerator";
+import { GameChannel } from "./gameChannel";
+import { PreviewHistory, isSeated, redactGameState } from "./gameView";
+import { loadSession, requireSession, sessionPlayerOf, startSession, endSession } from "./auth";
+import { addGameToStats, emptyStats } from "./stats";
+import { analyzeGame } from "./analysis";
+import { takeHint } from "./hints";
+import { exportGcg, importGcg } from "@shared/gcg";
+import { buildReplay } from "@shared/replay";
 import { loadWordDictionary, isWordValid } from "./wordDictionary";
+import { log } from "./vite";
 import os from 'os';
 import fs from 'fs';
 import path from 'path';
@@ -14,10 +27,33 @@ import path from 'path';
 const USE_WORD_FILE = process.env.USE_WORD_FILE !== 'false'; // Default to true, set USE_WORD_FILE=false to use wiki API
 if (USE_WORD_FILE) {
   loadWordDictionary();
+  const started = Date.now();
+  const dawg = initMoveGenerator();
+  log(`built the word graph (${dawg.nodeCount} nodes) in ${Date.now() - started}ms`, 'moveGenerator');
 }
 
+// What to do with plays that form words missing from the dictionary:
+// 'reject' (default), 'flag' (accept, mark Move.meta) or 'challenge' (accept, open a dispute)
+const DICTIONARY_POLICIES: DictionaryPolicy[] = ['reject', 'flag', 'challenge'];
+const DICTIONARY_POLICY: DictionaryPolicy = DICTIONARY_POLICIES.includes(process.env.DICTIONARY_POLICY as DictionaryPolicy)
+  ? process.env.DICTIONARY_POLICY as DictionaryPolicy
+  : 'reject';
+
+// Whether opponents may challenge a play: 'none', 'single' (a failed challenge
+// costs CHALLENGE_PENALTY points) or 'double' (it also costs the next turn).
+// Defaults to 'single' when unknown words are left for opponents to challenge.
+const CHALLENGE_RULES: ChallengeRule[] = ['none', 'single', 'double'];
+const CHALLENGE_RULE: ChallengeRule = CHALLENGE_RULES.includes(process.env.CHALLENGE_RULE as ChallengeRule)
+  ? process.env.CHALLENGE_RULE as ChallengeRule
+  : (DICTIONARY_POLICY === 'challenge' ? 'single' : 'none');
+const CHALLENGE_WINDOW_MS = CHALLENGE_RULE === 'none' ? 0 : parseInt(process.env.CHALLENGE_WINDOW_SECONDS || '30', 10) * 1000;
+const CHALLENGE_PENALTY = parseInt(process.env.CHALLENGE_PENALTY || '0', 10);
+
+// Pause before a bot plays so humans can follow what happened
+const BOT_MOVE_DELAY_MS = parseInt(process.env.BOT_MOVE_DELAY_MS || '1500', 10);
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  function createEmptyGameState(): GameState {
+  function createEmptyGameState(roomName?: string, settings?: GameSettings): GameState {
     const bag: string[] = [];
     Object.entries(TILE_DISTRIBUTION).forEach(([letter, count]) => {
       for (let i = 0; i < count; i++) {
@@ -43,79 +79,374 @@ export async function registerRoutes(app: Express): Promise<Server> {
       pausedAt: null,
       gameEnded: false,
       winnerId: undefined,
+      winnerIds: undefined,
       endReason: undefined,
       previews: {},
+      roomName,
+      createdAt: Date.now(),
+      settings: settings ?? { ...DEFAULT_GAME_SETTINGS },
+    };
+  }
+
+  // Pushes state changes to clients subscribed over /ws
+  const gameChannel = new GameChannel(roomId => storage.getGameState(roomId), viewFor);
+
+  // Spectators may be shown previews with a delay (GameSettings.spectatorPreviewDelay)
+  const previewHistory = new PreviewHistory();
+
+  // What `viewerId` may see of a room's game (see redactGameState). Every
+  // state sent to a client goes through here.
+  function viewFor(roomId: string, state: GameState, viewerId: string | null | undefined): GameState {
+    if (isSeated(state, viewerId)) return redactGameState(state, viewerId!);
+    const delayMs = getGameSettings(state).spectatorPreviewDelay * 1000;
+    return redactGameState(state, null, delayMs > 0 ? previewHistory.at(roomId, Date.now() - delayMs) : state.previews);
+  }
+
+  // The player signed in on the request (see loadSession), who sees the game
+  // from their seat
+  function viewerOf(res: Response): string | null {
+    return res.locals.playerId ?? null;
+  }
+
+  function newGameId(): string {
+    return `game_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  // Archive a finished game and add it to the stats of every player with an account
+  async function recordFinishedGame(roomId: string, state: GameState) {
+    const game: ArchivedGame = {
+      id: state.gameId!,
+      roomId,
+      roomName: state.roomName,
+      endedAt: Date.now(),
+      endReason: state.endReason,
+      winnerIds: state.winnerIds || (state.winnerId ? [state.winnerId] : []),
+      players: state.players,
+      moves: state.moves || [],
+      settings: state.settings,
+    };
+    await storage.archiveGame(game);
+
+    for (const player of state.players) {
+      if (!player.accountId) continue;
+      const stats = await storage.getPlayerStats(player.accountId) ?? emptyStats(player.accountId, player.name);
+      await storage.savePlayerStats(addGameToStats(stats, state, player));
+    }
+  }
+
+  // Save a room's state, log what changed it (`change`), broadcast the
+  // change and re-arm the turn timer. The first save of a finished game
+  // also logs the end, archives the game and records it in the players' stats.
+  async function saveRoom(roomId: string, state: GameState, event: GameEvent, change: GameLogEvent | GameLogEvent[]) {
+    const changes = Array.isArray(change) ? [...change] : [change];
+    const record = !!state.gameEnded && !state.statsRecorded;
+    if (record) {
+      state.statsRecorded = true;
+      // Games started before ids were assigned still get archived
+      state.gameId = state.gameId || newGameId();
+      changes.push({ type: 'end', gameId: state.gameId, reason: state.endReason, winnerIds: state.winnerIds || (state.winnerId ? [state.winnerId] : []) });
+    }
+    await storage.saveGameState(roomId, state, changes);
+    if (record) {
+      try {
+        await recordFinishedGame(roomId, state);
+      } catch (err) {
+        console.error('[Archive] failed to record finished game', err);
+      }
+    }
+    previewHistory.record(roomId, state.previews);
+    gameChannel.publish(roomId, state, event);
+    // Delayed spectator previews catch up once the delay has passed
+    const delayMs = getGameSettings(state).spectatorPreviewDelay * 1000;
+    if (event === 'preview' && delayMs > 0) setTimeout(() => gameChannel.refresh(roomId), delayMs + 50);
+    scheduleTurnTimeout(roomId, state);
+  }
+
+  // Answer to a request whose save lost a race with another request (see
+  // StaleStateError); the client retries on top of the newer state
+  function sendStale(res: Response) {
+    return res.status(409).json({ error: 'Game state changed, please retry' });
+  }
+
+  function roomIdOf(req: Request): string {
+    return String(req.params.roomId || DEFAULT_ROOM_ID);
+  }
+
+  // Locate the room a player belongs to (player ids are unique across rooms)
+  async function findPlayerRoom(playerId: string): Promise<{ roomId: string; state: GameState; player: Player } | undefined> {
+    for (const roomId of await storage.listRoomIds()) {
+      const state = await storage.getGameState(roomId);
+      const player = state?.players?.find(p => p.id === playerId);
+      if (state && player) return { roomId, state, player };
+    }
+    return undefined;
+  }
+
+  function summarizeRoom(roomId: string, state: GameState): RoomSummary {
+    return {
+      id: roomId,
+      name: state.roomName || (roomId === DEFAULT_ROOM_ID ? 'Общая комната' : roomId),
+      playerNames: state.players.map(p => p.name),
+      maxPlayers: getGameSettings(state).maxPlayers,
+      inProgress: !!state.currentPlayer && (state.turn || 0) > 0 && !state.gameEnded,
+      gameEnded: !!state.gameEnded,
+      createdAt: state.createdAt ?? null,
+      spectators: gameChannel.spectatorCount(roomId, state),
     };
   }
 
-  // Get current game state
-  app.get("/api/game", async (req, res) => {
+  // Pending bot turns, one per room
+  const botTimers = new Map<string, NodeJS.Timeout>();
+
+  // If it is a bot's turn in `state`, let it play after a short delay
+  // (not while the previous play may still be taken back)
+  function scheduleBotTurn(roomId: string, state: GameState | null | undefined) {
+    if (!state || state.gameEnded || state.paused || state.pendingTakeback || !state.currentPlayer || (state.turn || 0) === 0) return;
+    const bot = state.players.find(p => p.id === state.currentPlayer);
+    if (!bot?.bot || botTimers.has(roomId)) return;
+    const turn = state.turn;
+    // Give humans the whole window to challenge the previous play
+    const challengeOpen = state.pendingChallenge?.expiresAt ? state.pendingChallenge.expiresAt - Date.now() : 0;
+    botTimers.set(roomId, setTimeout(() => {
+      botTimers.delete(roomId);
+      playBotTurn(roomId, bot.id, turn).catch(err => console.error('[Bot] turn failed', err));
+    }, Math.max(BOT_MOVE_DELAY_MS, challengeOpen)));
+  }
+
+  async function playBotTurn(roomId: string, botId: string, turn: number) {
+    const state = await storage.getGameState(roomId);
+    if (!state || state.gameEnded || state.paused || state.pendingTakeback) return;
+    // Someone else moved in the meantime; re-check whose turn it is now
+    if (state.currentPlayer !== botId || state.turn !== turn) return scheduleBotTurn(roomId, state);
+
+    const action = chooseBotAction(state, botId);
+    let result: PlayResult = { valid: false };
+    if (action.type === 'play') {
+      result = applyPlay(state, botId, action.tiles, {
+        isWordValid: USE_WORD_FILE ? isWordValid : undefined,
+        dictionaryPolicy: DICTIONARY_POLICY,
+        challengeWindowMs: CHALLENGE_WINDOW_MS,
+      });
+    } else if (action.type === 'exchange') {
+      result = applyExchange(state, botId, action.letters);
+    }
+    if (!result.valid) {
+      if (action.type !== 'skip') console.warn('[Bot] action rejected, skipping', action.type, result.error);
+      result = applySkip(state, botId);
+    }
+    log(`${botId} in room ${roomId}: ${result.move?.type} ${result.move?.words.join(', ')} ${result.move?.score}`, 'bot');
+
+    applyGameEnd(state);
+    try {
+      await saveRoom(roomId, state, 'move', moveEvent(result.move!));
+    } catch (err) {
+      // Someone saved first; think again from the new state
+      if (err instanceof StaleStateError) return scheduleBotTurn(roomId, await storage.getGameState(roomId));
+      throw err;
+    }
+    scheduleBotTurn(roomId, state);
+  }
+
+  // Pending turn time limits, one per room
+  const turnTimers = new Map<string, NodeJS.Timeout>();
+
+  // (Re)arm the turn time limit for the game in `state`, so a game keeps
+  // going when the active player has closed the tab. In chess-clock games
+  // it fires once the player is out of overtime (see turnDeadline). The
+  // timer stands still while a takeback waits for answers.
+  function scheduleTurnTimeout(roomId: string, state: GameState | null | undefined) {
+    const pending = turnTimers.get(roomId);
+    if (pending) {
+      clearTimeout(pending);
+      turnTimers.delete(roomId);
+    }
+    if (!state || state.gameEnded || state.paused || state.pendingTakeback || !state.currentPlayer || (state.turn || 0) === 0) return;
+    const deadline = turnDeadline(state);
+    if (deadline === null) return;
+    const { currentPlayer, turn } = state;
+    turnTimers.set(roomId, setTimeout(() => {
+      turnTimers.delete(roomId);
+      expireTurn(roomId, currentPlayer, turn).catch(err => console.error('[Timeout] failed', err));
+    }, Math.max(0, deadline - Date.now())));
+  }
+
+  async function expireTurn(roomId: string, playerId: string, turn: number) {
+    const state = await storage.getGameState(roomId);
+    // Settling the takeback re-arms the timer
+    if (!state || state.gameEnded || state.paused || state.pendingTakeback) return;
+    // The turn moved on, or was resumed from a pause with a later deadline
+    const deadline = turnDeadline(state);
+    if (state.currentPlayer !== playerId || state.turn !== turn || deadline === null || Date.now() < deadline) {
+      return scheduleTurnTimeout(roomId, state);
+    }
+
+    const result = applyTimeout(state, playerId);
+    if (!result.valid) return;
+    log(`${playerId} in room ${roomId} ran out of time`, 'timeout');
+    applyGameEnd(state);
+    try {
+      await saveRoom(roomId, state, 'timeout', moveEvent(result.move!));
+    } catch (err) {
+      // Someone saved first; check the deadline again against the new state
+      if (err instanceof StaleStateError) return scheduleTurnTimeout(roomId, await storage.getGameState(roomId));
+      throw err;
+    }
+    scheduleBotTurn(roomId, state);
+  }
+
+  app.use('/api', loadSession);
+
+  // List rooms for the lobby
+  app.get('/api/rooms', async (req, res) => {
     try {
-      const gameState = await storage.getGameState();
-      res.json(gameState || null);
+      const rooms: RoomSummary[] = [];
+      const roomIds = await storage.listRoomIds();
+      // The shared room is created by the first join, and joining a room is
+      // how a newcomer signs in, so it is always listed
+      if (!roomIds.includes(DEFAULT_ROOM_ID)) rooms.push(summarizeRoom(DEFAULT_ROOM_ID, createEmptyGameState()));
+      for (const roomId of roomIds) {
+        const state = await storage.getGameState(roomId);
+        if (state) rooms.push(summarizeRoom(roomId, state));
+      }
+      rooms.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+      res.json(rooms);
+    } catch (err) {
+      console.error('[Rooms] list failed', err);
+      res.status(500).json({ error: 'Failed to list rooms' });
+    }
+  });
+
+  // Create a new room with its own game
+  app.post('/api/rooms', requireSession, async (req, res) => {
+    try {
+      const rawName = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+      if (rawName.length > 40) return res.status(400).json({ error: 'Room name is too long' });
+      const roomId = `room_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const gameState = createEmptyGameState(rawName || undefined);
+      await saveRoom(roomId, gameState, 'init', { type: 'create', roomName: gameState.roomName });
+      res.json({ roomId, room: summarizeRoom(roomId, gameState), gameState: viewFor(roomId, gameState, null) });
+    } catch (err) {
+      console.error('[Rooms] create failed', err);
+      res.status(500).json({ error: 'Failed to create room' });
+    }
+  });
+
+  // Routes for a single game. Mounted at /api/rooms/:roomId and, for the
+  // default room, at the original /api/game prefix.
+  const room = Router({ mergeParams: true });
+  room.use((req, res, next) => {
+    if (!isValidRoomId(roomIdOf(req))) return res.status(400).json({ error: 'Invalid room id' });
+    next();
+  });
+
+  // Get current game state as the signed-in player sees it (the spectator view otherwise)
+  room.get("/", async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const gameState = await storage.getGameState(roomId);
+      res.json(gameState ? viewFor(roomId, gameState, viewerOf(res)) : null);
     } catch (error) {
       res.status(500).json({ error: "Failed to get game state" });
     }
   });
 
+  // The room's current game as a GCG file
+  room.get("/gcg", async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const saved = await storage.getGameState(roomId);
+      if (!saved) return res.status(404).json({ error: 'Room not found' });
+      const state = viewFor(roomId, saved, viewerOf(res));
+      res.type('text/plain; charset=utf-8');
+      res.attachment(`${state.gameId || roomId}.gcg`);
+      return res.send(exportGcg({ title: state.roomName, players: state.players, moves: state.moves || [] }));
+    } catch (err) {
+      console.error('[GCG] export failed', err);
+      return res.status(500).json({ error: 'Failed to export game' });
+    }
+  });
+
+  // The room's event log, also after it closed. Diffs are left out: they
+  // carry racks and the bag.
+  room.get("/events", async (req, res) => {
+    try {
+      const log = await storage.getGameLog(roomIdOf(req));
+      return res.json(log.map(({ diff, ...entry }) => entry));
+    } catch (err) {
+      console.error('[Events] read failed', err);
+      return res.status(500).json({ error: 'Failed to read event log' });
+    }
+  });
+
+  // Minimal public information about a seated player
+  function publicPlayerInfo(found: { roomId: string; player: Player }): PlayerInfo {
+    const p = found.player;
+    const out: PlayerInfo = { id: p.id, name: p.name, score: p.score, roomId: found.roomId };
+    if (p.avatarUrl) out.avatarUrl = p.avatarUrl;
+    return out;
+  }
+
   // Validate a playerId: returns minimal player info if present
   app.get('/api/player/:id', async (req, res) => {
     try {
       const id = String(req.params.id || '');
       if (!id || typeof id !== 'string') return res.status(400).json({ error: 'Invalid player id' });
-      const state = await storage.getGameState();
-      if (!state || !Array.isArray(state.players)) return res.status(404).json({ error: 'Player not found' });
-      const p = state.players.find(pl => pl.id === id);
-      if (!p) return res.status(404).json({ error: 'Player not found' });
-      // return only minimal public information
-      const out: any = { id: p.id, name: p.name, score: p.score };
-      if ((p as any).avatarUrl) out.avatarUrl = (p as any).avatarUrl;
-      return res.json(out);
+      const found = await findPlayerRoom(id);
+      if (!found) return res.status(404).json({ error: 'Player not found' });
+      return res.json(publicPlayerInfo(found));
     } catch (err) {
       console.error('[PlayerValidate] failed', err);
       return res.status(500).json({ error: 'Failed to validate player' });
     }
   });
 
+  // The player signed in on this browser and the room they sit in
+  app.get('/api/session', async (req, res) => {
+    try {
+      const playerId = viewerOf(res);
+      if (!playerId) return res.status(401).json({ error: 'Not signed in' });
+      const found = await findPlayerRoom(playerId);
+      if (!found) return res.status(404).json({ error: 'Player not found' });
+      return res.json(publicPlayerInfo(found));
+    } catch (err) {
+      console.error('[Session] failed', err);
+      return res.status(500).json({ error: 'Failed to get session' });
+    }
+  });
+
+  // Sign out of this browser; the seat is kept and can be reclaimed by joining again
+  app.post('/api/logout', async (req, res) => {
+    try {
+      await endSession(req, res);
+      return res.json({ success: true });
+    } catch (err) {
+      console.error('[Logout] failed', err);
+      return res.status(500).json({ error: 'Failed to log out' });
+    }
+  });
+
   // Initialize or reset game
-  app.post("/api/game/init", async (req, res) => {
+  room.post("/init", requireSession, async (req, res) => {
     try {
-      const bag: string[] = [];
-      Object.entries(TILE_DISTRIBUTION).forEach(([letter, count]) => {
-        for (let i = 0; i < count; i++) {
-          bag.push(letter);
-        }
-      });
-      
-      // Shuffle the bag
-      for (let i = bag.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [bag[i], bag[j]] = [bag[j], bag[i]];
+      const roomId = roomIdOf(req);
+      const previous = await storage.getGameState(roomId);
+      if (previous?.players.length && !isSeated(previous, viewerOf(res))) {
+        return res.status(403).json({ error: 'Only players can reset the game' });
       }
+      const newGameState = { ...createEmptyGameState(previous?.roomName, previous?.settings), version: previous?.version };
 
-      const newGameState: GameState = {
-        board: Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null)),
-        tileBag: bag,
-        players: [],
-        currentPlayer: null,
-        turn: 0,
-        moves: []
-        , paused: false,
-        pausedBy: null,
-        turnStart: null,
-        pausedAt: null
-      };
-
-      await storage.saveGameState(newGameState);
-      res.json(newGameState);
+      await saveRoom(roomId, newGameState, 'init', { type: 'reset', playerId: viewerOf(res) });
+      res.json(viewFor(roomId, newGameState, viewerOf(res)));
     } catch (error) {
+      if (error instanceof StaleStateError) return sendStale(res);
       res.status(500).json({ error: "Failed to initialize game" });
     }
   });
 
   // Join game
-  app.post("/api/game/join", async (req, res) => {
+  room.post("/join", async (req, res) => {
     try {
+      const roomId = roomIdOf(req);
       const { playerName, password } = req.body;
 
       if (!playerName || typeof playerName !== 'string' || !playerName.trim()) {
@@ -126,34 +457,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Password is required" });
       }
 
-      let gameState = await storage.getGameState();
-      
-      // Initialize game if it doesn't exist
-      if (!gameState) {
-        const bag: string[] = [];
-        Object.entries(TILE_DISTRIBUTION).forEach(([letter, count]) => {
-          for (let i = 0; i < count; i++) {
-            bag.push(letter);
-          }
-        });
-        
-        for (let i = bag.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [bag[i], bag[j]] = [bag[j], bag[i]];
-        }
+      let gameState = await storage.getGameState(roomId);
 
-        gameState = {
-          board: Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null)),
-          tileBag: bag,
-          players: [],
-          currentPlayer: null,
-          turn: 0,
-          moves: []
-          , paused: false,
-          pausedBy: null,
-          turnStart: null,
-          pausedAt: null
-        };
+      // Initialize the default game if it doesn't exist; other rooms are created explicitly
+      if (!gameState) {
+        if (roomId !== DEFAULT_ROOM_ID) return res.status(404).json({ error: 'Room not found' });
+        gameState = createEmptyGameState();
       }
 
       // Check for existing player by name (case-insensitive)
@@ -167,13 +476,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(403).json({ error: 'Name already taken with different password' });
         }
 
-        // Good: return existing player id and current game state
-        return res.json({ playerId: existing.id, gameState });
+        // Good: sign in and return existing player id and current game state
+        await startSession(req, res, existing.id);
+        return res.json({ playerId: existing.id, roomId, gameState: viewFor(roomId, gameState, existing.id) });
       }
 
       // Create new player
-      if (gameState.players.length >= 3) {
-        return res.status(400).json({ error: "Game is full (max 3 players)" });
+      const { maxPlayers } = getGameSettings(gameState);
+      if (gameState.players.length >= maxPlayers) {
+        return res.status(400).json({ error: `Game is full (max ${maxPlayers} players)` });
+      }
+
+      // The name belongs to a persistent account across rooms and games
+      let account = await storage.findAccountByName(playerName);
+      if (account) {
+        if (!(await storage.verifyAccountPassword(account.id, password))) {
+          return res.status(403).json({ error: 'Name already taken with different password' });
+        }
+      } else {
+        account = await storage.createAccount(playerName, password);
       }
 
       const playerId = `player_${Date.now()}_${Math.random()}`;
@@ -183,6 +504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newPlayer: Player = {
         id: playerId,
         name: playerName.trim(),
+        accountId: account.id,
         rack,
         score: 0
       };
@@ -194,44 +516,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Do not auto-start or set current player here; game start is explicit
 
-      await storage.saveGameState(gameState);
-      res.json({ playerId, gameState });
+      await saveRoom(roomId, gameState, 'join', { type: 'join', playerId, name: newPlayer.name });
+      await startSession(req, res, playerId);
+      res.json({ playerId, roomId, gameState: viewFor(roomId, gameState, playerId) });
     } catch (error) {
+      if (error instanceof StaleStateError) return sendStale(res);
       res.status(500).json({ error: "Failed to join game" });
     }
   });
 
-  // Leave game: remove player from current session; if last player leaves, reset session
-  app.post('/api/game/leave', async (req, res) => {
+  // Leave game: remove player from current session; if last player leaves, reset session.
+  // With `botId`, the player removes that bot instead and stays seated.
+  room.post('/leave', requireSession, async (req, res) => {
     try {
+      const roomId = roomIdOf(req);
       const playerId = String(req.body?.playerId || '').trim();
+      const botId = typeof req.body?.botId === 'string' ? req.body.botId : null;
       if (!playerId) return res.status(400).json({ error: 'playerId is required' });
 
-      const state = await storage.getGameState();
-      if (!state || !Array.isArray(state.players)) {
-        return res.json({ success: true, gameState: state || null });
-      }
+      // Leaving ends every session of the player (once the seat is given up,
+      // so a retried request is still signed in)
+      const done = async (gameState: GameState | null) => {
+        if (!botId) {
+          await storage.deleteSessionsForPlayer(playerId);
+          await endSession(req, res);
+        }
+        return res.json({ success: true, gameState: gameState && viewFor(roomId, gameState, botId ? playerId : null) });
+      };
 
-      const existingIndex = state.players.findIndex(p => p.id === playerId);
-      if (existingIndex === -1) {
-        return res.json({ success: true, gameState: state });
+      const state = await storage.getGameState(roomId);
+      if (!state || !Array.isArray(state.players)) return done(null);
+
+      if (botId) {
+        if (!isSeated(state, playerId)) return res.status(403).json({ error: 'Only players can remove bots' });
+        if (!state.players.find(p => p.id === botId)?.bot) return res.status(404).json({ error: 'Bot not found' });
       }
+      const leavingId = botId ?? playerId;
+      const existingIndex = state.players.findIndex(p => p.id === leavingId);
+      if (existingIndex === -1) return done(state);
 
-      const wasCurrentPlayer = state.currentPlayer === playerId;
+      const wasCurrentPlayer = state.currentPlayer === leavingId;
+      // Hints already paid for this turn stay in the history
+      recordHints(state, leavingId);
       state.players.splice(existingIndex, 1);
+      // A takeback waiting on or for the leaving player would hold the game
+      dropTakeback(state);
+      const left: GameLogEvent = botId ? { type: 'leave', playerId: botId, by: playerId } : { type: 'leave', playerId };
 
       // Remove preview data for this player
-      try {
-        if (state.previews && typeof state.previews === 'object') {
-          delete (state.previews as any)[playerId];
+      if (state.previews) delete state.previews[leavingId];
+
+      // If no human players remain, reset the default session to an empty
+      // initialized state; any other room is closed
+      if (!state.players.some(p => !p.bot)) {
+        if (roomId !== DEFAULT_ROOM_ID) {
+          await storage.deleteGameState(roomId);
+          previewHistory.forget(roomId);
+          gameChannel.publish(roomId, null, 'closed');
+          scheduleTurnTimeout(roomId, null);
+          return done(null);
         }
-      } catch {}
-
-      // If no players remain, terminate/reset session to empty initialized state
-      if (state.players.length === 0) {
-        const resetState = createEmptyGameState();
-        await storage.saveGameState(resetState);
-        return res.json({ success: true, gameState: resetState });
+        const resetState = { ...createEmptyGameState(), version: state.version };
+        await saveRoom(roomId, resetState, 'leave', [left, { type: 'reset', playerId: null }]);
+        return done(resetState);
       }
 
       // If removed player had the turn, pass turn to next valid player
@@ -245,294 +592,335 @@ export async function registerRoutes(app: Express): Promise<Server> {
         state.turnStart = state.currentPlayer ? Date.now() : null;
       }
 
-      await storage.saveGameState(state);
-      return res.json({ success: true, gameState: state });
+      // Fewer players make a shorter run of passes end the game
+      if (!state.gameEnded && (state.turn || 0) > 0) applyGameEnd(state);
+      await saveRoom(roomId, state, 'leave', left);
+      scheduleBotTurn(roomId, state);
+      return done(state);
     } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
       console.error('[Leave] failed', err);
       return res.status(500).json({ error: 'Failed to leave game' });
     }
   });
 
-  // Update game state (for moves)
-  app.post("/api/game/update", async (req, res) => {
+  // Seat a computer opponent in the lobby
+  room.post('/bots', requireSession, async (req, res) => {
     try {
-      const updates = req.body;
-      const result = gameStateSchema.safeParse(updates);
-      
-      if (!result.success) {
-        console.error("Invalid game state data:", result.error);
-        return res.status(400).json({ error: "Invalid game state data", details: result.error });
+      const roomId = roomIdOf(req);
+      const level = req.body?.level as BotLevel;
+      if (!BOT_NAMES[level]) return res.status(400).json({ error: 'Unknown bot level' });
+
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'Room not found' });
+      if (!isSeated(state, viewerOf(res))) return res.status(403).json({ error: 'Join the room before adding bots' });
+      if ((state.turn || 0) > 0 && !state.gameEnded) return res.status(400).json({ error: 'Game already in progress' });
+      const { maxPlayers } = getGameSettings(state);
+      if (state.players.length >= maxPlayers) return res.status(400).json({ error: `Game is full (max ${maxPlayers} players)` });
+
+      // Keep names unique so join-by-name never matches a bot
+      let name = BOT_NAMES[level];
+      for (let n = 2; state.players.some(p => p.name.toLowerCase() === name.toLowerCase()); n++) {
+        name = `${BOT_NAMES[level]} ${n}`;
       }
+      const rack: (string | null)[] = state.tileBag.splice(0, 7);
+      while (rack.length < 7) rack.push(null);
+      const bot: Player = {
+        id: `bot_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        rack,
+        score: 0,
+        ready: true,
+        bot: level,
+      };
+      state.players.push(bot);
+
+      await saveRoom(roomId, state, 'bot', { type: 'join', playerId: bot.id, name, bot: level });
+      res.json({ success: true, playerId: bot.id, gameState: viewFor(roomId, state, viewerOf(res)) });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Bots] add failed', err);
+      res.status(500).json({ error: 'Failed to add bot' });
+    }
+  });
 
-      // If there is an existing saved state, perform scoring validation
-      const previous = await storage.getGameState();
-      // Enforce server-side: reject updates if the saved game already ended
-      if (previous && previous.gameEnded) {
-        console.warn('[Update] rejected update: game already ended');
-        return res.status(400).json({ error: 'Game has already ended' });
+  // Change the match settings; only the host (first human to join) may do
+  // this, and only before the game starts
+  room.post('/settings', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      const parsed = gameSettingsSchema.partial().safeParse(req.body?.settings);
+      if (!parsed.success) return res.status(400).json({ error: 'Invalid settings', details: parsed.error });
+
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'Room not found' });
+      if (state.players.find(p => !p.bot)?.id !== playerId) return res.status(403).json({ error: 'Only the host can change settings' });
+      if ((state.turn || 0) > 0 && !state.gameEnded) return res.status(400).json({ error: 'Game already in progress' });
+
+      const settings = { ...getGameSettings(state), ...parsed.data };
+      if (settings.maxPlayers < state.players.length) {
+        return res.status(400).json({ error: `There are already ${state.players.length} players in the room` });
       }
-      const incoming = result.data as GameState;
+      state.settings = settings;
 
-      // If there are more moves in the incoming state, inspect the last move
-      const prevMoves = previous?.moves?.length || 0;
-      const newMoves = incoming.moves?.length || 0;
+      await saveRoom(roomId, state, 'settings', { type: 'settings', playerId, settings: parsed.data });
+      res.json({ success: true, gameState: viewFor(roomId, state, playerId) });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Settings] update failed', err);
+      res.status(500).json({ error: 'Failed to update settings' });
+    }
+  });
 
-      // Enforce pause: if the saved state is paused, reject any incoming new moves
-      if (previous && previous.paused && newMoves > prevMoves) {
-        console.warn('[Update] rejected update: game is paused (incoming contained new moves)');
-        return res.status(400).json({ error: 'Game is paused' });
+  // Submit a play: the client sends only the tiles it placed; the server
+  // validates, scores, refills the rack from the bag and advances the turn
+  room.post('/move', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const { playerId, placedTiles } = req.body || {};
+      if (!playerId || typeof playerId !== 'string' || !Array.isArray(placedTiles)) {
+        return res.status(400).json({ error: 'Invalid move payload' });
       }
 
-      if (previous && newMoves > prevMoves && incoming.moves) {
-        const lastMove = incoming.moves[incoming.moves.length - 1];
-        // Only validate scoring for 'play' moves
-        if (lastMove.type !== 'skip' && lastMove.type !== 'exchange') {
-          // Prefer placedTiles provided by the client in move.meta. Fallback to board diff.
-          let placedTiles: { row: number; col: number; letter: string }[] = [];
-          if (lastMove.meta && Array.isArray(lastMove.meta.placedTiles)) {
-            placedTiles = lastMove.meta.placedTiles as any;
-            } else {
-            for (let r = 0; r < BOARD_SIZE; r++) {
-              for (let c = 0; c < BOARD_SIZE; c++) {
-                const prevCell = previous.board[r][c];
-                const newCell = incoming.board[r][c];
-                if ((prevCell === null || prevCell === undefined) && newCell !== null && newCell !== undefined) {
-                  // newCell may be a BoardCell object; extract letter if present
-                  const letter = (newCell as any)?.letter ?? newCell;
-                  placedTiles.push({ row: r, col: c, letter });
-                }
-              }
-            }
-          }
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+      if (state.paused) return res.status(400).json({ error: 'Game is paused' });
 
-          // Derive words and expected score
-          const words = extractWordsFromBoard(incoming.board, placedTiles as any);
-          const expectedScore = calculateScore(words, incoming.board, placedTiles as any);
+      const result = applyPlay(state, playerId, placedTiles, {
+        isWordValid: USE_WORD_FILE ? isWordValid : undefined,
+        dictionaryPolicy: DICTIONARY_POLICY,
+        challengeWindowMs: CHALLENGE_WINDOW_MS,
+      });
+      if (!result.valid) {
+        return res.status(400).json({ error: result.error, invalidWords: result.invalidWords });
+      }
 
-          // Find the player whose score increased (should be the player in lastMove.playerId)
-          const prevPlayer = previous.players.find(p => p.id === lastMove.playerId);
-          const newPlayer = incoming.players.find(p => p.id === lastMove.playerId);
-          const prevScore = prevPlayer?.score ?? 0;
-          const newScore = newPlayer?.score ?? 0;
-          const delta = newScore - prevScore;
+      applyGameEnd(state);
 
-          // Overwrite the client's reported move score with the server-computed expected score
-          lastMove.score = expectedScore;
+      await saveRoom(roomId, state, 'move', moveEvent(result.move!));
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), move: result.move });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Move] failed', err);
+      return res.status(500).json({ error: 'Failed to submit move' });
+    }
+  });
 
-          // Update the incoming player's score to be previous + expectedScore so server is authoritative
-          if (newPlayer) {
-            newPlayer.score = (prevPlayer?.score ?? 0) + expectedScore;
-          }
-        }
-      }
+  // Dispute the last play while its challenge window is open
+  room.post('/challenge', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      if (!playerId) return res.status(400).json({ error: 'playerId is required' });
 
-      // Reconcile tile bag to ensure counts match the canonical distribution
-      // This prevents accidental duplication or loss of tiles caused by clients
-      // or race conditions. We compute expected remaining tiles as: distribution
-      // minus tiles currently on board and tiles in players' racks, then
-      // rebuild and shuffle the bag accordingly.
-      const incomingState = result.data as GameState;
-      // Adjust server-authoritative timestamps and pause transitions.
-      try {
-        if (previous) {
-          const prevPaused = !!previous.paused;
-          const incPaused = !!incomingState.paused;
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+      if (state.paused) return res.status(400).json({ error: 'Game is paused' });
 
-          // If we're transitioning to paused, record pausedAt if not set
-          if (!prevPaused && incPaused) {
-            incomingState.pausedAt = incomingState.pausedAt ?? Date.now();
-          }
+      const result = resolveChallenge(state, playerId, {
+        isWordValid,
+        rule: CHALLENGE_RULE,
+        penaltyPoints: CHALLENGE_PENALTY,
+      });
+      if (!result.valid) return res.status(400).json({ error: result.error });
 
-          // If we're resuming from pause, advance turnStart by pause duration
-          if (prevPaused && !incPaused) {
-            const pausedAt = previous.pausedAt ?? incomingState.pausedAt ?? Date.now();
-            const delta = Date.now() - pausedAt;
-            if (incomingState.turnStart) incomingState.turnStart = (incomingState.turnStart || Date.now()) + delta;
-            else incomingState.turnStart = Date.now();
-            incomingState.pausedAt = null;
-          }
+      // A failed challenge costs a turn, which may close a run of passes
+      applyGameEnd(state);
+      await saveRoom(roomId, state, 'challenge', { type: 'challenge', playerId, upheld: !!result.upheld });
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), upheld: result.upheld, invalidWords: result.invalidWords });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Challenge] failed', err);
+      return res.status(500).json({ error: 'Failed to resolve challenge' });
+    }
+  });
 
-          // When turn advances, reset turnStart to now
-          if (incomingState.currentPlayer !== previous.currentPlayer || (incomingState.turn || 0) > (previous.turn || 0)) {
-            incomingState.turnStart = Date.now();
-          }
-        } else {
-          // No previous state: ensure turnStart exists if there is a current player
-          if (incomingState.currentPlayer && !incomingState.turnStart) incomingState.turnStart = Date.now();
-        }
-      } catch (err) {
-        console.error('[Timestamps] failed to adjust turnStart/pausedAt', err);
+  // Suggest the best plays for the player's rack; limited and charged per
+  // GameSettings.hintLimit and hintPenalty. The plays are only sent back, not stored.
+  room.post('/hint', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      if (!playerId) return res.status(400).json({ error: 'playerId is required' });
+
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+      if (state.paused) return res.status(400).json({ error: 'Game is paused' });
+
+      const result = takeHint(state, playerId);
+      if (!result.valid) return res.status(400).json({ error: result.error });
+
+      if (result.plays!.length > 0) {
+        await saveRoom(roomId, state, 'hint', { type: 'hint', playerId, penalty: getGameSettings(state).hintPenalty });
       }
-      try {
-        const expected: Record<string, number> = {};
-        Object.entries(TILE_DISTRIBUTION).forEach(([ltr, cnt]) => expected[ltr] = cnt);
-
-        // Build a canonical board to use for counting remaining tiles. We prefer
-        // to start from the previously saved board and then apply only the
-        // validated last play (if any). This prevents clients from accidentally
-        // sending an incoming state that omits tiles (for example during a
-        // skip) and causing the server to think those tiles are back in the bag.
-        const usedBoard = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null)) as any[][];
-        if (previous) {
-          // clone previous board into usedBoard
-          for (let r = 0; r < BOARD_SIZE; r++) for (let c = 0; c < BOARD_SIZE; c++) usedBoard[r][c] = previous.board[r][c];
-        } else {
-          // no previous state (rare) — fall back to incoming board
-          for (let r = 0; r < BOARD_SIZE; r++) for (let c = 0; c < BOARD_SIZE; c++) usedBoard[r][c] = incomingState.board[r][c];
-        }
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), plays: result.plays });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Hint] failed', err);
+      return res.status(500).json({ error: 'Failed to find hints' });
+    }
+  });
 
-        // If there is a new move and it's a 'play', apply the placed tiles from
-        // that move onto usedBoard so the counts include them. Prefer explicit
-        // meta.placedTiles provided by the client; otherwise fall back to a
-        // diff between previous and incoming.
-        let placedTilesForCount: { row: number; col: number; letter: string; blank?: boolean }[] = [];
-        if (previous && newMoves > prevMoves && incoming.moves && incoming.moves.length > 0) {
-          const lastMove = incoming.moves[incoming.moves.length - 1];
-          if (lastMove && lastMove.type === 'play') {
-            if (lastMove.meta && Array.isArray(lastMove.meta.placedTiles)) {
-              placedTilesForCount = lastMove.meta.placedTiles as any;
-            } else {
-              // compute diff between previous.board and incoming.board
-              for (let r = 0; r < BOARD_SIZE; r++) {
-                for (let c = 0; c < BOARD_SIZE; c++) {
-                  const prevCell = previous.board[r][c] as any;
-                  const newCell = incomingState.board[r][c] as any;
-                  if ((prevCell === null || prevCell === undefined) && newCell !== null && newCell !== undefined) {
-                    const letter = (newCell as any)?.letter ?? newCell;
-                    const blank = !!(newCell && (newCell as any).blank);
-                    placedTilesForCount.push({ row: r, col: c, letter, blank });
-                  }
-                }
-              }
-            }
+  // Ask to take back your last play; it is taken back once every other
+  // human player agrees (see /takeback/answer)
+  room.post('/takeback', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      if (!playerId) return res.status(400).json({ error: 'playerId is required' });
 
-            // apply placed tiles onto usedBoard
-            for (const t of placedTilesForCount) {
-              usedBoard[t.row][t.col] = { letter: t.letter, blank: !!t.blank };
-            }
-          }
-        }
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+      if (state.paused) return res.status(400).json({ error: 'Game is paused' });
 
-        // Detect unexplained removals: tiles present in previous.board but missing
-        // from incoming.board that are not accounted for by the validated last play.
-        try {
-          if (previous) {
-            const unexplained: Array<{ row: number; col: number; letter: string } > = [];
-            for (let r = 0; r < BOARD_SIZE; r++) {
-              for (let c = 0; c < BOARD_SIZE; c++) {
-                const prevCell = previous.board[r][c] as any;
-                const newCell = incomingState.board[r][c] as any;
-                if (prevCell && prevCell.letter) {
-                  // previously had a tile but incoming has no tile here
-                  if (!newCell || !newCell.letter) {
-                    const wasExplained = placedTilesForCount.some(p => p.row === r && p.col === c);
-                    if (!wasExplained) {
-                      unexplained.push({ row: r, col: c, letter: prevCell.letter });
-                    }
-                  }
-                }
-              }
-            }
-            if (unexplained.length > 0) {
-              console.warn('[UnexplainedBoardRemovals] incoming update removed tiles not accounted for by last validated play', {
-                ip: req.ip || req.headers['x-forwarded-for'] || null,
-                prevMoves,
-                newMoves,
-                removed: unexplained,
-                lastMoveSummary: (incoming.moves && incoming.moves.length > 0) ? incoming.moves[incoming.moves.length - 1] : null,
-                incomingTileBagLength: Array.isArray(incomingState.tileBag) ? incomingState.tileBag.length : null,
-                incomingPlayerRacks: incomingState.players ? incomingState.players.map(p => ({ id: p.id, rack: p.rack })) : null
-              });
-            }
-          }
-        } catch (err) {
-          console.error('[UnexplainedBoardRemovals] detection failed', err);
-        }
+      const result = requestTakeback(state, playerId);
+      if (!result.valid) return res.status(400).json({ error: result.error });
 
-        // subtract tiles found on the usedBoard
-        for (let r = 0; r < BOARD_SIZE; r++) {
-          for (let c = 0; c < BOARD_SIZE; c++) {
-            const cell = usedBoard[r][c] as any;
-            if (cell && cell.letter) {
-              // If the cell was a blank (wildcard) assigned to a letter, it should
-              // consume a '?' from the distribution, not the displayed letter.
-              const L = cell.blank ? '?' : (cell.letter as string);
-              if (expected[L] !== undefined) expected[L] = Math.max(0, expected[L] - 1);
-            }
-          }
-        }
+      applyGameEnd(state);
+      await saveRoom(roomId, state, 'takeback', { type: 'takeback', playerId, step: 'request', applied: !!result.applied });
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), applied: result.applied });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Takeback] request failed', err);
+      return res.status(500).json({ error: 'Failed to request takeback' });
+    }
+  });
 
-        // subtract tiles in player racks
-        for (const p of incomingState.players) {
-          for (const t of p.rack) {
-            if (t !== null && expected[t] !== undefined) {
-              expected[t] = Math.max(0, expected[t] - 1);
-            }
-          }
-        }
+  room.post('/takeback/answer', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      const approve = req.body?.approve;
+      if (!playerId || typeof approve !== 'boolean') return res.status(400).json({ error: 'playerId and approve are required' });
 
-        // build new bag from remaining counts
-        const rebuilt: string[] = [];
-        for (const [ltr, cnt] of Object.entries(expected)) {
-          for (let i = 0; i < cnt; i++) rebuilt.push(ltr);
-        }
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
 
-        // If the incoming bag length differs from rebuilt, replace and shuffle.
-        // Otherwise, if the multiset mismatches, replace but keep the client's
-        // ordering where possible to avoid surprising reorders on clients.
-        let replacedBag = false;
-        if (!Array.isArray(incomingState.tileBag) || incomingState.tileBag.length !== rebuilt.length) {
-          incomingState.tileBag = rebuilt;
-          replacedBag = true;
-        } else {
-          // Quick sanity: check multiset equality; if mismatch, replace
-          const countBag: Record<string, number> = {};
-          for (const x of incomingState.tileBag || []) countBag[x] = (countBag[x] || 0) + 1;
-          let mismatch = false;
-          for (const [ltr, cnt] of Object.entries(expected)) {
-            if ((countBag[ltr] || 0) !== cnt) { mismatch = true; break; }
-          }
-          if (mismatch) {
-            incomingState.tileBag = rebuilt;
-            replacedBag = true;
-          }
-        }
+      const result = answerTakeback(state, playerId, approve);
+      if (!result.valid) return res.status(400).json({ error: result.error });
 
-        // shuffle the rebuilt bag only when we replaced it; otherwise preserve order
-        if (replacedBag) {
-          for (let i = incomingState.tileBag.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [incomingState.tileBag[i], incomingState.tileBag[j]] = [incomingState.tileBag[j], incomingState.tileBag[i]];
-          }
-        }
-      } catch (err) {
-        console.error('[TileBag Reconcile] failed', err);
-      }
+      applyGameEnd(state);
+      await saveRoom(roomId, state, 'takeback', { type: 'takeback', playerId, step: approve ? 'approve' : 'decline', applied: !!result.applied });
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), applied: result.applied });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Takeback] answer failed', err);
+      return res.status(500).json({ error: 'Failed to answer takeback' });
+    }
+  });
+
+  // Pass the turn, or swap rack tiles for tiles from the bag. The server
+  // draws the replacements; clients never see the bag.
+  room.post('/skip', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      if (!playerId) return res.status(400).json({ error: 'playerId is required' });
 
-      await storage.saveGameState(incomingState);
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+      if (state.paused) return res.status(400).json({ error: 'Game is paused' });
 
-      // Verify save worked
-      const saved = await storage.getGameState();
-      console.log("Game state saved. Board center:", saved?.board[7]?.slice(6, 10));
+      const result = applySkip(state, playerId);
+      if (!result.valid) return res.status(400).json({ error: result.error });
 
-      if (!saved) {
-        // Shouldn't happen, but return the incoming state as fallback
-        return res.json({ success: true, gameState: incomingState });
-      }
+      applyGameEnd(state);
+      await saveRoom(roomId, state, 'move', moveEvent(result.move!));
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), move: result.move });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Skip] failed', err);
+      return res.status(500).json({ error: 'Failed to skip turn' });
+    }
+  });
 
-      // Check for game end
-      const endCheck = checkGameEnd(saved);
-      if (endCheck.ended) {
-        saved.gameEnded = true;
-        saved.winnerId = endCheck.winnerId;
-        saved.endReason = endCheck.reason;
-        await storage.saveGameState(saved);
+  room.post('/exchange', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const { playerId, letters } = req.body || {};
+      if (!playerId || typeof playerId !== 'string' || !Array.isArray(letters) || letters.some(l => typeof l !== 'string')) {
+        return res.status(400).json({ error: 'Invalid exchange payload' });
       }
 
-      res.json({ success: true, gameState: saved });
-    } catch (error) {
-      console.error("Failed to update game state:", error);
-      res.status(500).json({ error: "Failed to update game state" });
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+      if (state.paused) return res.status(400).json({ error: 'Game is paused' });
+
+      const result = applyExchange(state, playerId, letters);
+      if (!result.valid) return res.status(400).json({ error: result.error });
+
+      applyGameEnd(state);
+      await saveRoom(roomId, state, 'move', moveEvent(result.move!));
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId), move: result.move });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Exchange] failed', err);
+      return res.status(500).json({ error: 'Failed to exchange tiles' });
+    }
+  });
+
+  // Pause or resume the game; any player may do either
+  room.post('/pause', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      const paused = req.body?.paused;
+      if (!playerId || typeof paused !== 'boolean') return res.status(400).json({ error: 'playerId and paused are required' });
+
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      if (state.gameEnded) return res.status(400).json({ error: 'Game has already ended' });
+
+      const wasPaused = !!state.paused;
+      const result = applyPause(state, playerId, paused);
+      if (!result.valid) return res.status(400).json({ error: result.error });
+
+      if (wasPaused !== paused) await saveRoom(roomId, state, paused ? 'pause' : 'resume', { type: paused ? 'pause' : 'resume', playerId });
+      scheduleBotTurn(roomId, state);
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId) });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Pause] failed', err);
+      return res.status(500).json({ error: 'Failed to pause game' });
+    }
+  });
+
+  // Mark a player ready (or not) to start the next game
+  room.post('/ready', requireSession, async (req, res) => {
+    try {
+      const roomId = roomIdOf(req);
+      const playerId = String(req.body?.playerId || '');
+      const ready = req.body?.ready;
+      if (!playerId || typeof ready !== 'boolean') return res.status(400).json({ error: 'playerId and ready are required' });
+
+      const state = await storage.getGameState(roomId);
+      if (!state) return res.status(404).json({ error: 'No game state' });
+      const player = state.players.find(p => p.id === playerId);
+      if (!player) return res.status(404).json({ error: 'Player not found' });
+
+      if (!!player.ready !== ready) {
+        player.ready = ready;
+        await saveRoom(roomId, state, 'update', { type: 'ready', playerId, ready });
+      }
+      return res.json({ success: true, gameState: viewFor(roomId, state, playerId) });
+    } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
+      console.error('[Ready] failed', err);
+      return res.status(500).json({ error: 'Failed to update ready state' });
     }
   });
 
@@ -555,29 +943,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Return cached-ish player stats (basic server-side snapshot)
+  // Finished games, newest first; `player` matches a player id, account id or
+  // name (imported games are left out of player histories)
+  app.get('/api/games', async (req, res) => {
+    try {
+      const player = typeof req.query.player === 'string' ? req.query.player.trim() : '';
+      const name = player.toLowerCase();
+      const games = (await storage.listArchivedGames())
+        .filter(g => !player || !g.imported && g.players.some(p => p.id === player || p.accountId === player || p.name.trim().toLowerCase() === name))
+        .sort((a, b) => b.endedAt - a.endedAt);
+      const summaries: ArchivedGameSummary[] = games.map(({ moves, ...summary }) => summary);
+      return res.json(summaries);
+    } catch (err) {
+      console.error('[Games] failed to list games', err);
+      return res.status(500).json({ error: 'Failed to list games' });
+    }
+  });
+
+  // Create a viewable game from GCG text (`{ text }`)
+  app.post('/api/games/import', requireSession, async (req, res) => {
+    try {
+      const text = req.body?.text;
+      if (!text || typeof text !== 'string') return res.status(400).json({ error: 'GCG text required' });
+      let parsed;
+      try {
+        parsed = importGcg(text);
+      } catch (err) {
+        return res.status(400).json({ error: err instanceof Error ? err.message : 'Invalid GCG' });
+      }
+
+      const scores = buildReplay(parsed).pop()!.scores;
+      const top = Math.max(...parsed.players.map(p => scores[p.id] ?? 0));
+      const game: ArchivedGame = {
+        id: newGameId(),
+        roomName: parsed.title,
+        imported: true,
+        endedAt: Date.now(),
+        winnerIds: parsed.players.filter(p => (scores[p.id] ?? 0) === top).map(p => p.id),
+        players: parsed.players.map(p => ({ ...p, score: scores[p.id] ?? 0 })),
+        moves: parsed.moves,
+      };
+      await storage.archiveGame(game);
+      return res.json({ gameId: game.id });
+    } catch (err) {
+      console.error('[GCG] import failed', err);
+      return res.status(500).json({ error: 'Failed to import game' });
+    }
+  });
+
+  // A finished game as a GCG file
+  app.get('/api/games/:gameId/gcg', async (req, res) => {
+    try {
+      const game = await storage.getArchivedGame(String(req.params.gameId || ''));
+      if (!game) return res.status(404).json({ error: 'Game not found' });
+      res.type('text/plain; charset=utf-8');
+      res.attachment(`${game.id}.gcg`);
+      return res.send(exportGcg({ title: game.roomName, players: game.players, moves: game.moves }));
+    } catch (err) {
+      console.error('[GCG] export failed', err);
+      return res.status(500).json({ error: 'Failed to export game' });
+    }
+  });
+
+  // Archived games never change, so their analyses are kept once computed
+  const analyses = new Map<string, GameAnalysis>();
+
+  // Each turn of a finished game against the best plays the generator finds
+  app.get('/api/games/:gameId/analysis', async (req, res) => {
+    try {
+      const gameId = String(req.params.gameId || '');
+      let analysis = analyses.get(gameId);
+      if (!analysis) {
+        const game = await storage.getArchivedGame(gameId);
+        if (!game) return res.status(404).json({ error: 'Game not found' });
+        analysis = analyzeGame(game);
+        analyses.set(gameId, analysis);
+      }
+      return res.json(analysis);
+    } catch (err) {
+      console.error('[Analysis] failed', err);
+      return res.status(500).json({ error: 'Failed to analyze game' });
+    }
+  });
+
+  // One finished game with its full move list, for the replay viewer
+  app.get('/api/games/:gameId', async (req, res) => {
+    try {
+      const game = await storage.getArchivedGame(String(req.params.gameId || ''));
+      if (!game) return res.status(404).json({ error: 'Game not found' });
+      return res.json(game);
+    } catch (err) {
+      console.error('[Games] failed to load game', err);
+      return res.status(500).json({ error: 'Failed to load game' });
+    }
+  });
+
+  // Cross-game stats of the account behind a player in one of the rooms
   app.get('/api/player-stats/:playerId', async (req, res) => {
     try {
       const playerId = String(req.params.playerId || '');
       if (!playerId) return res.status(400).json({ error: 'playerId required' });
-      const state = await storage.getGameState();
-      if (!state) return res.status(404).json({ error: 'No game state' });
-      const p = state.players.find(x => x.id === playerId);
-      if (!p) return res.status(404).json({ error: 'Player not found' });
-
-      // Currently we only have per-game score info server-side. Return a
-      // minimal cached snapshot. Later this can be replaced by a persistent
-      // stats store that aggregates across games.
-      const snapshot = {
-        playerId: p.id,
-        score: p.score || 0,
-        wins: 0,
-        losses: 0,
-        games: 1,
-        cachedAt: Date.now(),
-        source: 'server-snapshot'
-      };
-      return res.json(snapshot);
+      const found = await findPlayerRoom(playerId);
+      if (!found) return res.status(404).json({ error: 'Player not found' });
+      const { accountId, name } = found.player;
+      if (!accountId) return res.status(404).json({ error: 'Player has no account' });
+
+      const stats = await storage.getPlayerStats(accountId) ?? emptyStats(accountId, name);
+      return res.json(stats);
     } catch (err) {
       console.error('[PlayerStats] failed', err);
       return res.status(500).json({ error: 'Failed to get player stats' });
@@ -585,7 +1057,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Set or update a player's avatar URL (basic validation)
-  app.post('/api/player/:playerId/avatar', async (req, res) => {
+  app.post('/api/player/:playerId/avatar', requireSession, async (req, res) => {
     try {
       const playerId = String(req.params.playerId || '');
       const { avatarUrl } = req.body || {};
@@ -595,15 +1067,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Basic validation: must be http(s) and reasonably short
       if (!/^https?:\/\//i.test(avatarUrl) || avatarUrl.length > 200) return res.status(400).json({ error: 'Invalid avatarUrl' });
 
-      const state = await storage.getGameState();
-      if (!state) return res.status(404).json({ error: 'No game state' });
-      const p = state.players.find(x => x.id === playerId);
-      if (!p) return res.status(404).json({ error: 'Player not found' });
+      const found = await findPlayerRoom(playerId);
+      if (!found) return res.status(404).json({ error: 'Player not found' });
 
-      p.avatarUrl = avatarUrl;
-      await storage.saveGameState(state);
+      found.player.avatarUrl = avatarUrl;
+      await saveRoom(found.roomId, found.state, 'avatar', { type: 'avatar', playerId });
       return res.json({ success: true, avatarUrl });
     } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
       console.error('[Avatar] failed', err);
       return res.status(500).json({ error: 'Failed to set avatar' });
     }
@@ -651,25 +1122,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Receive preview placements from the active player (non-authoritative preview only)
-  app.post('/api/game/preview', async (req, res) => {
+  room.post('/preview', requireSession, async (req, res) => {
     try {
+      const roomId = roomIdOf(req);
       const { playerId, placedTiles } = req.body || {};
       if (!playerId || !Array.isArray(placedTiles)) {
         return res.status(400).json({ error: 'Invalid preview payload' });
       }
 
-      const state = await storage.getGameState();
+      const state = await storage.getGameState(roomId);
       if (!state) return res.status(500).json({ error: 'No game state' });
+      if (!isSeated(state, playerId)) return res.status(403).json({ error: 'Only players can preview tiles' });
 
       // attach previews map on state
       state.previews = state.previews || {};
       // sanitize placed tiles (row/col/letter)
       state.previews[playerId] = placedTiles.map((t: any) => ({ row: Number(t.row), col: Number(t.col), letter: String(t.letter), blank: !!t.blank }));
 
-      await storage.saveGameState(state);
-      const saved = await storage.getGameState();
-      return res.json({ success: true, gameState: saved });
+      // Not logged: previews are not part of the game
+      await saveRoom(roomId, state, 'preview', []);
+      const saved = await storage.getGameState(roomId);
+      return res.json({ success: true, gameState: saved ? viewFor(roomId, saved, playerId) : null });
     } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
       console.error('[Preview] failed', err);
       return res.status(500).json({ error: 'Failed to save preview' });
     }
@@ -710,18 +1185,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // best-effort: if ws server not started, return empty
       const info: any = (global as any).__wsHealth || { connected: 0, peers: [] };
-      res.json(info);
+      res.json({ ...info, gameSubscribers: gameChannel.stats() });
     } catch (err) {
       res.status(500).json({ error: 'ws-health failed' });
     }
   });
 
   // Start game: shuffle player order, build tile bag, deal racks, and set initial turn
-  app.post('/api/game/start', async (req, res) => {
+  room.post('/start', requireSession, async (req, res) => {
     try {
-      const state = await storage.getGameState();
+      const roomId = roomIdOf(req);
+      const state = await storage.getGameState(roomId);
       if (!state) return res.status(400).json({ error: 'No game to start' });
       if (!Array.isArray(state.players) || state.players.length === 0) return res.status(400).json({ error: 'No players to start game' });
+      if (!isSeated(state, viewerOf(res))) return res.status(403).json({ error: 'Only players can start the game' });
 
       // Enforce readiness: all players in lobby must be marked ready.
       const notReadyPlayers = state.players.filter((p) => !p.ready).map((p) => p.name);
@@ -750,12 +1227,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       state.tileBag = bag;
+      const settings = getGameSettings(state);
       // deal racks
       for (const p of state.players) {
         p.rack = state.tileBag.splice(0, 7);
         while (p.rack.length < 7) p.rack.push(null);
         p.score = p.score || 0;
-        p.ready = false; // reset ready flag
+        p.ready = !!p.bot; // reset ready flag; bots are always ready
+        p.timeBankMs = settings.totalSeconds > 0 ? settings.totalSeconds * 1000 : undefined;
+        p.turnHints = undefined;
       }
 
       // reset board/moves and set current player to first player
@@ -768,12 +1248,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       state.pausedAt = null;
       state.gameEnded = false;
       state.winnerId = undefined;
+      state.winnerIds = undefined;
       state.endReason = undefined;
+      state.statsRecorded = undefined;
+      state.gameId = newGameId();
 
-      await storage.saveGameState(state);
-      const saved = await storage.getGameState();
-      return res.json({ success: true, gameState: saved });
+      await saveRoom(roomId, state, 'start', { type: 'start', gameId: state.gameId, order: state.players.map(p => p.id) });
+      const saved = await storage.getGameState(roomId);
+      scheduleBotTurn(roomId, saved);
+      return res.json({ success: true, gameState: saved ? viewFor(roomId, saved, viewerOf(res)) : null });
     } catch (err) {
+      if (err instanceof StaleStateError) return sendStale(res);
       console.error('[Start] failed', err);
       return res.status(500).json({ error: 'Failed to start game' });
     }
@@ -802,16 +1287,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.use('/api/rooms/:roomId', room);
+  app.use('/api/game', room);
+
+  // Resume bot turns and turn timers in games that were running before a restart
+  for (const roomId of await storage.listRoomIds()) {
+    const state = await storage.getGameState(roomId);
+    scheduleBotTurn(roomId, state);
+    scheduleTurnTimeout(roomId, state);
+  }
+
   const httpServer = createServer(app);
 
-  // Simple WebSocket signaling server for voice chat with heartbeat and health
+  // WebSocket server for voice chat signaling (with heartbeat and health) and
+  // the game state channel. Each client joins the channel of its room and
+  // only sees peers in it.
   try {
     const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
     console.log('[WebSocket] server listening on /ws');
 
-    type ClientRecord = { ws: WebSocket, lastSeen: number };
+    type ClientRecord = { ws: WebSocket, lastSeen: number, roomId: string };
     const clients = new Map<string, ClientRecord>();
 
+    const roomPeers = (roomId: string) => Array.from(clients.keys()).filter(id => clients.get(id)!.roomId === roomId);
+    const updateHealth = () => {
+      (global as any).__wsHealth.connected = clients.size;
+      (global as any).__wsHealth.peers = Array.from(clients.keys()).map(id => ({ id, roomId: clients.get(id)!.roomId, lastSeen: clients.get(id)!.lastSeen }));
+    };
+
     const WS_HEARTBEAT_INTERVAL = parseInt(process.env.WS_HEARTBEAT_MS || '30000', 10);
     const WS_STALE_MS = parseInt(process.env.WS_STALE_MS || '60000', 10);
 
@@ -821,6 +1324,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     wss.on('connection', (ws: WebSocket, req) => {
       console.log('[WebSocket] connection established', req.socket.remoteAddress);
       let registeredId: string | null = null;
+      // The game channel shows each socket the game as the player signed in
+      // on the cookie sent with the upgrade request
+      const viewer = sessionPlayerOf(req).catch(() => null);
 
       // Update lastSeen on pong
       ws.on('pong', () => {
@@ -834,24 +1340,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         try {
           const msg = JSON.parse(raw.toString());
           const type = msg.type;
-          if (type === 'join') {
+          if (typeof type === 'string' && type.startsWith('game-')) {
+            // Game state channel; independent of voice registration
+            viewer.then(viewerId => gameChannel.handleMessage(ws, msg as GameChannelClientMessage, viewerId)).catch(err => console.warn('[GameChannel] message failed', err));
+          } else if (type === 'join') {
             const playerId = String(msg.playerId || '');
             if (!playerId) return;
+            const roomId = String(msg.roomId || DEFAULT_ROOM_ID);
+            if (!isValidRoomId(roomId)) return;
             registeredId = playerId;
-            clients.set(playerId, { ws, lastSeen: Date.now() });
+            clients.set(playerId, { ws, lastSeen: Date.now(), roomId });
 
             // update health
-            (global as any).__wsHealth.connected = clients.size;
-            (global as any).__wsHealth.peers = Array.from(clients.keys()).map(id => ({ id, lastSeen: clients.get(id)!.lastSeen }));
+            updateHealth();
 
-            // inform the joining client of current peers
-            const peers = Array.from(clients.keys()).filter(id => id !== playerId);
-            console.log('[WebSocket] player joined', playerId, 'peers->', peers);
+            // inform the joining client of current peers in its room
+            const peers = roomPeers(roomId).filter(id => id !== playerId);
+            console.log('[WebSocket] player joined', playerId, 'room', roomId, 'peers->', peers);
             ws.send(JSON.stringify({ type: 'peers', peers }));
 
-            // notify existing peers of the new peer
-            for (const id of Array.from(clients.keys())) {
-              if (id === playerId) continue;
+            // notify existing peers in the room of the new peer
+            for (const id of peers) {
               const cws = clients.get(id)!.ws;
               try {
                 console.log('[WebSocket] notifying existing peer', id, 'of new-peer', playerId);
@@ -864,8 +1373,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const to = String(msg.to || '');
             if (!to) return;
             const targetRec = clients.get(to);
+            const senderRec = registeredId ? clients.get(registeredId) : undefined;
             console.log('[WebSocket] forwarding', type, 'from', msg.from, 'to', to);
-            if (targetRec) {
+            if (targetRec && senderRec && targetRec.roomId !== senderRec.roomId) {
+              console.warn('[WebSocket] refusing to forward across rooms', registeredId, '->', to);
+            } else if (targetRec) {
               try {
                 if (targetRec.ws.readyState === WebSocket.OPEN) {
                   targetRec.ws.send(JSON.stringify(msg));
@@ -881,10 +1393,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           } else if (type === 'leave') {
             const pid = String(msg.playerId || '');
             if (pid && clients.has(pid)) {
+              const roomId = clients.get(pid)!.roomId;
               clients.delete(pid);
-              // notify others
+              // notify others in the room
               console.log('[WebSocket] player left', pid);
-              for (const id of Array.from(clients.keys())) {
+              for (const id of roomPeers(roomId)) {
                 const crec = clients.get(id)!.ws;
                 try {
                   crec.send(JSON.stringify({ type: 'peer-left', playerId: pid }));
@@ -892,8 +1405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   console.warn('[WebSocket] failed to notify peer-left to', id, err);
                 }
               }
-              (global as any).__wsHealth.connected = clients.size;
-              (global as any).__wsHealth.peers = Array.from(clients.keys()).map(id => ({ id, lastSeen: clients.get(id)!.lastSeen }));
+              updateHealth();
             }
           }
         } catch (err) {
@@ -902,19 +1414,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       ws.on('close', () => {
-        if (registeredId && clients.has(registeredId)) {
+        gameChannel.removeSocket(ws);
+        // Ignore if this socket was already replaced by a newer one for the same player
+        if (registeredId && clients.get(registeredId)?.ws === ws) {
+          const roomId = clients.get(registeredId)!.roomId;
           clients.delete(registeredId);
-          for (const id of Array.from(clients.keys())) {
+          for (const id of roomPeers(roomId)) {
             const cws = clients.get(id)!.ws;
             try { cws.send(JSON.stringify({ type: 'peer-left', playerId: registeredId })); } catch (err) {}
           }
-          (global as any).__wsHealth.connected = clients.size;
-          (global as any).__wsHealth.peers = Array.from(clients.keys()).map(id => ({ id, lastSeen: clients.get(id)!.lastSeen }));
+          updateHealth();
         }
       });
     });
 
-    // Heartbeat interval: send pings and clean up stale peers
+    // Heartbeat interval: send pings and clean up stale peers (the listening
+    // server, not the heartbeat, keeps the process alive)
     setInterval(() => {
       try {
         const now = Date.now();
@@ -931,19 +1446,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.warn('[WebSocket] stale connection, terminating', id, 'ageMs=', age);
             try { rec.ws.terminate(); } catch (e) {}
             clients.delete(id);
-            // notify remaining peers
-            for (const pid of Array.from(clients.keys())) {
+            // notify remaining peers in the room
+            for (const pid of roomPeers(rec.roomId)) {
               const cws = clients.get(pid)!.ws;
               try { cws.send(JSON.stringify({ type: 'peer-left', playerId: id })); } catch (e) {}
             }
           }
         }
-        (global as any).__wsHealth.connected = clients.size;
-        (global as any).__wsHealth.peers = Array.from(clients.keys()).map(id => ({ id, lastSeen: clients.get(id)!.lastSeen }));
+        updateHealth();
       } catch (e) {
         // ignore heartbeat errors
       }
-    }, WS_HEARTBEAT_INTERVAL);
+    }, WS_HEARTBEAT_INTERVAL).unref();
   } catch (err) {
     console.error('[WebSocket] failed to start signaling server', err);
   }
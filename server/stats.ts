@@ -0,0 +1,51 @@
+import type { GameState, Player, PlayerStats } from "@shared/schema";
+
+export function emptyStats(accountId: string, name: string): PlayerStats {
+  return {
+    accountId,
+    name,
+    games: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    totalScore: 0,
+    bestMove: null,
+    bingos: 0,
+    longestWord: null,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Fold the finished game `state` into `stats` for `player`, returning the
+ * updated totals. Only plays that stood count towards the best move, bingos
+ * and longest word (withdrawn plays are recorded as 'challenged').
+ */
+export function addGameToStats(stats: PlayerStats, state: GameState, player: Player): PlayerStats {
+  const winners = state.winnerIds || (state.winnerId ? [state.winnerId] : []);
+  const won = winners.includes(player.id);
+  const tied = won && winners.length > 1;
+
+  const next: PlayerStats = {
+    ...stats,
+    name: player.name,
+    games: stats.games + 1,
+    wins: stats.wins + (won && !tied ? 1 : 0),
+    losses: stats.losses + (won ? 0 : 1),
+    ties: stats.ties + (tied ? 1 : 0),
+    totalScore: stats.totalScore + player.score,
+    updatedAt: Date.now(),
+  };
+
+  for (const m of state.moves || []) {
+    if (m.playerId !== player.id || m.type !== 'play') continue;
+    if (!next.bestMove || m.score > next.bestMove.score) {
+      next.bestMove = { score: m.score, words: m.words, playedAt: m.timestamp };
+    }
+    if (Array.isArray(m.meta?.placedTiles) && m.meta!.placedTiles.length === 7) next.bingos++;
+    for (const w of m.words) {
+      if (!next.longestWord || w.length > next.longestWord.length) next.longestWord = w;
+    }
+  }
+  return next;
+}
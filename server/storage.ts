@@ -1,69 +1,354 @@
-import { type GameState } from "@shared/schema";
-import { createHash } from "crypto";
+import { type Account, type ArchivedGame, type GameState, type PlayerStats } from "@shared/schema";
+import { computeGameDiff } from "@shared/gameChannel";
+import { replayGameLog, type GameLogEntry, type GameLogEvent } from "@shared/gameLog";
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
 import fs from 'fs/promises';
+import { mkdirSync } from 'fs';
 import path from 'path';
+import Database from 'better-sqlite3';
+import { asc, count, eq, lte } from 'drizzle-orm';
+import { drizzle, type BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import * as tables from './dbSchema';
+
+// Room used by the legacy un-scoped `/api/game/*` routes
+export const DEFAULT_ROOM_ID = 'default';
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidRoomId(roomId: string): boolean {
+  return ROOM_ID_PATTERN.test(roomId);
+}
+
+// Game ids are generated server-side in the same alphabet as room ids
+export function isValidGameId(gameId: string): boolean {
+  return ROOM_ID_PATTERN.test(gameId);
+}
+
+/**
+ * Thrown by saveGameState when the room was saved by someone else after
+ * `gameState` was read. Reload the state and try again.
+ */
+export class StaleStateError extends Error {
+  constructor(roomId: string) {
+    super(`Game state of room ${roomId} changed since it was read`);
+    this.name = 'StaleStateError';
+  }
+}
 
 export interface IStorage {
-  getGameState(): Promise<GameState | undefined>;
-  saveGameState(gameState: GameState): Promise<void>;
+  getGameState(roomId: string): Promise<GameState | undefined>;
+  // Compare-and-swap on `gameState.version`: saves only if the stored state
+  // still has that version (none for a new room), then bumps it; throws
+  // StaleStateError otherwise. `events` say what changed it and go to the
+  // room's log along with the diff; a save without events is not logged.
+  saveGameState(roomId: string, gameState: GameState, events: GameLogEvent[]): Promise<void>;
+  // Logs the room's closing; its log is kept
+  deleteGameState(roomId: string): Promise<void>;
+  getGameLog(roomId: string): Promise<GameLogEntry[]>;
+  listRoomIds(): Promise<string[]>;
+  // Seat passwords, checked when a player joins a room again by name
+  setPlayerPassword(playerId: string, password: string): Promise<void>;
+  verifyPlayerPassword(playerId: string, password: string): Promise<boolean>;
+  findPlayerIdByName(roomId: string, name: string): Promise<string | undefined>;
+  findAccountByName(name: string): Promise<Account | undefined>;
+  createAccount(name: string, password: string): Promise<Account>;
+  verifyAccountPassword(accountId: string, password: string): Promise<boolean>;
+  getPlayerStats(accountId: string): Promise<PlayerStats | undefined>;
+  savePlayerStats(stats: PlayerStats): Promise<void>;
+  archiveGame(game: ArchivedGame): Promise<void>;
+  getArchivedGame(gameId: string): Promise<ArchivedGame | undefined>;
+  listArchivedGames(): Promise<ArchivedGame[]>;
+  createSession(playerId: string): Promise<string>;
+  getSessionPlayer(token: string): Promise<string | undefined>;
+  deleteSession(token: string): Promise<void>;
+  deleteSessionsForPlayer(playerId: string): Promise<void>;
+}
+
+interface AccountRecord {
+  account: Account;
+  passwordHash: string;
+}
+
+const SCRYPT_KEY_LENGTH = 64;
+
+function scryptKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// Stored as `scrypt$<salt>$<key>`, both base64
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+// Hashes written before salting were a bare sha256 hex digest
+const isLegacyHash = (hash: string) => !hash.startsWith('scrypt$');
+
+async function verifyPassword(password: string, hash: string | undefined): Promise<boolean> {
+  if (!hash) return false;
+  if (isLegacyHash(hash)) return createHash('sha256').update(password).digest('hex') === hash;
+  const [, salt, key] = hash.split('$');
+  const expected = Buffer.from(key || '', 'base64');
+  const actual = await scryptKey(password, Buffer.from(salt || '', 'base64'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Sessions last this long after sign-in
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface SessionRecord {
+  playerId: string;
+  expiresAt: number;
+}
+
+// Only a digest of each token is kept, so a leaked store cannot be replayed
+const sessionKey = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const newSessionToken = () => randomBytes(32).toString('base64url');
+
+function checkVersion(roomId: string, stored: Pick<GameState, 'version'> | undefined, gameState: GameState) {
+  if ((stored?.version ?? 0) !== (gameState.version ?? 0)) throw new StaleStateError(roomId);
+  gameState.version = (gameState.version ?? 0) + 1;
+}
+
+// Tile previews change with every drag and go with the move, so they are
+// kept out of the log
+function withoutPreviews(state: GameState): GameState {
+  const { previews, ...rest } = state;
+  return rest;
+}
+
+// Log entries for a save from `stored` to `gameState`, numbered from `seq`.
+// The first entry of a log diffs against nothing, so the log alone is
+// enough to rebuild the room (without previews).
+function logEntries(seq: number, stored: GameState | undefined, gameState: GameState, events: GameLogEvent[]): GameLogEntry[] {
+  const at = Date.now();
+  const diff = computeGameDiff(withoutPreviews(seq > 0 && stored ? stored : ({} as GameState)), withoutPreviews(gameState));
+  return events.map((event, i) => ({ seq: seq + i, at, version: gameState.version ?? 0, event, diff: i === 0 ? diff : null }));
+}
+
+const closeEntry = (seq: number, stored: GameState | undefined): GameLogEntry => (
+  { seq, at: Date.now(), version: stored?.version ?? 0, event: { type: 'close' }, diff: null }
+);
+
+// Account names are matched the same way player names are within a room
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+async function newAccountRecord(name: string, password: string): Promise<AccountRecord> {
+  return {
+    account: { id: randomUUID(), name: name.trim(), createdAt: Date.now() },
+    passwordHash: await hashPassword(password),
+  };
 }
 
 export class MemStorage implements IStorage {
-  private gameState: GameState | undefined;
+  private gameStates: Map<string, GameState>;
   private credentials: Record<string, string>; // map playerId -> passwordHash
+  private accounts: Map<string, AccountRecord>;
+  private playerStats: Map<string, PlayerStats>;
+  private archive: Map<string, ArchivedGame>;
+  private sessions: Map<string, SessionRecord>; // map token digest -> session
+  private logs = new Map<string, GameLogEntry[]>();
 
   constructor() {
-    this.gameState = undefined;
+    this.gameStates = new Map();
     this.credentials = {};
+    this.accounts = new Map();
+    this.playerStats = new Map();
+    this.archive = new Map();
+    this.sessions = new Map();
+  }
+
+  // Copies in and out, so callers never edit the stored state in place
+  async getGameState(roomId: string): Promise<GameState | undefined> {
+    const state = this.gameStates.get(roomId);
+    return state && structuredClone(state);
+  }
+
+  async saveGameState(roomId: string, gameState: GameState, events: GameLogEvent[]): Promise<void> {
+    const stored = this.gameStates.get(roomId);
+    checkVersion(roomId, stored, gameState);
+    const log = this.logs.get(roomId) || [];
+    log.push(...structuredClone(logEntries(log.length, stored, gameState, events)));
+    this.logs.set(roomId, log);
+    this.gameStates.set(roomId, structuredClone(gameState));
   }
 
-  async getGameState(): Promise<GameState | undefined> {
-    return this.gameState;
+  async deleteGameState(roomId: string): Promise<void> {
+    const log = this.logs.get(roomId) || [];
+    log.push(closeEntry(log.length, this.gameStates.get(roomId)));
+    this.logs.set(roomId, log);
+    this.gameStates.delete(roomId);
   }
 
-  async saveGameState(gameState: GameState): Promise<void> {
-    this.gameState = gameState;
+  async getGameLog(roomId: string): Promise<GameLogEntry[]> {
+    return structuredClone(this.logs.get(roomId) || []);
+  }
+
+  async listRoomIds(): Promise<string[]> {
+    return Array.from(this.gameStates.keys());
   }
 
   async setPlayerPassword(playerId: string, password: string): Promise<void> {
-    const hash = createHash('sha256').update(password).digest('hex');
-    this.credentials[playerId] = hash;
+    this.credentials[playerId] = await hashPassword(password);
   }
 
   async verifyPlayerPassword(playerId: string, password: string): Promise<boolean> {
-    const hash = createHash('sha256').update(password).digest('hex');
-    return this.credentials[playerId] === hash;
+    return verifyPassword(password, this.credentials[playerId]);
   }
 
-  async findPlayerIdByName(name: string): Promise<string | undefined> {
-    if (!this.gameState) return undefined;
-    const p = this.gameState.players.find(pl => pl.name.trim().toLowerCase() === name.trim().toLowerCase());
+  async findPlayerIdByName(roomId: string, name: string): Promise<string | undefined> {
+    const gs = this.gameStates.get(roomId);
+    if (!gs) return undefined;
+    const p = gs.players.find(pl => pl.name.trim().toLowerCase() === name.trim().toLowerCase());
     return p?.id;
   }
+
+  async findAccountByName(name: string): Promise<Account | undefined> {
+    const key = normalizeName(name);
+    return Array.from(this.accounts.values()).find(r => normalizeName(r.account.name) === key)?.account;
+  }
+
+  async createAccount(name: string, password: string): Promise<Account> {
+    const record = await newAccountRecord(name, password);
+    this.accounts.set(record.account.id, record);
+    return record.account;
+  }
+
+  async verifyAccountPassword(accountId: string, password: string): Promise<boolean> {
+    return verifyPassword(password, this.accounts.get(accountId)?.passwordHash);
+  }
+
+  async getPlayerStats(accountId: string): Promise<PlayerStats | undefined> {
+    return this.playerStats.get(accountId);
+  }
+
+  async savePlayerStats(stats: PlayerStats): Promise<void> {
+    this.playerStats.set(stats.accountId, stats);
+  }
+
+  async archiveGame(game: ArchivedGame): Promise<void> {
+    this.archive.set(game.id, game);
+  }
+
+  async getArchivedGame(gameId: string): Promise<ArchivedGame | undefined> {
+    return this.archive.get(gameId);
+  }
+
+  async listArchivedGames(): Promise<ArchivedGame[]> {
+    return Array.from(this.archive.values());
+  }
+
+  async createSession(playerId: string): Promise<string> {
+    const token = newSessionToken();
+    this.sessions.set(sessionKey(token), { playerId, expiresAt: Date.now() + SESSION_TTL_MS });
+    return token;
+  }
+
+  async getSessionPlayer(token: string): Promise<string | undefined> {
+    const session = this.sessions.get(sessionKey(token));
+    return session && session.expiresAt > Date.now() ? session.playerId : undefined;
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    this.sessions.delete(sessionKey(token));
+  }
+
+  async deleteSessionsForPlayer(playerId: string): Promise<void> {
+    for (const [key, session] of Array.from(this.sessions.entries())) {
+      if (session.playerId === playerId) this.sessions.delete(key);
+    }
+  }
 }
 class FileStorage implements IStorage {
   private filePath: string;
+  private roomsDir: string;
   private credPath: string;
   private credentials: Record<string, string>;
+  private accountsPath: string;
+  private statsPath: string;
+  private archiveDir: string;
+  private logDir: string;
+  private accounts: Record<string, AccountRecord>; // map accountId -> record
+  private playerStats: Record<string, PlayerStats>; // map accountId -> stats
+  private sessionsPath: string;
+  private sessions: Record<string, SessionRecord>; // map token digest -> session
+  // Last pending save or delete of each room; writes of a room queue behind it
+  private roomSaves = new Map<string, Promise<unknown>>();
+  // Length of each room's log, once it has been read
+  private logLengths = new Map<string, number>();
+  // Credentials, accounts, stats and sessions read from their files; every
+  // method using them waits for it, so nothing written first is overwritten
+  private ready: Promise<void>;
 
   constructor(filePath?: string) {
+    // The default room keeps using the original single-game file; other
+    // rooms get one file each under the rooms directory.
     this.filePath = filePath || (process.env.GAME_STATE_FILE || 'data/game-state.json');
+    this.roomsDir = process.env.GAME_ROOMS_DIR || 'data/rooms';
     this.credPath = (process.env.GAME_CRED_FILE || 'data/credentials.json');
     this.credentials = {};
-    // ensure directory exists
+    this.accountsPath = process.env.GAME_ACCOUNTS_FILE || 'data/accounts.json';
+    this.statsPath = process.env.GAME_STATS_FILE || 'data/player-stats.json';
+    this.archiveDir = process.env.GAME_ARCHIVE_DIR || 'data/games';
+    this.logDir = process.env.GAME_LOG_DIR || 'data/logs';
+    this.accounts = {};
+    this.playerStats = {};
+    this.sessionsPath = process.env.GAME_SESSIONS_FILE || 'data/sessions.json';
+    this.sessions = {};
+    // ensure directories exist
     try {
-      const dir = path.dirname(this.filePath);
-      fs.mkdir(dir, { recursive: true }).catch(() => {});
+      fs.mkdir(path.dirname(this.filePath), { recursive: true }).catch(() => {});
+      fs.mkdir(this.roomsDir, { recursive: true }).catch(() => {});
+      fs.mkdir(this.archiveDir, { recursive: true }).catch(() => {});
+      fs.mkdir(this.logDir, { recursive: true }).catch(() => {});
     } catch (e) {}
-    // attempt to load credentials file if present
-    (async () => {
-      try {
-        const s = await fs.readFile(this.credPath, 'utf8');
-        this.credentials = JSON.parse(s) || {};
-      } catch (e) {
-        this.credentials = {};
-      }
-    })();
+    // load credentials, accounts and sessions if present
+    this.ready = Promise.all([this.loadCreds(), this.loadAccounts(), this.loadSessions()]).then(() => {});
+  }
+
+  private async readJson<T>(file: string): Promise<Record<string, T>> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) || {};
+    } catch (e) {
+      return {};
+    }
+  }
+
+  private async writeJson(file: string, data: unknown) {
+    const tmp = file + '.tmp';
+    await fs.writeFile(tmp, JSON.stringify(data), 'utf8');
+    await fs.rename(tmp, file);
+  }
+
+  private async loadAccounts() {
+    this.accounts = await this.readJson<AccountRecord>(this.accountsPath);
+    this.playerStats = await this.readJson<PlayerStats>(this.statsPath);
+  }
+
+  private async loadSessions() {
+    this.sessions = await this.readJson<SessionRecord>(this.sessionsPath);
+  }
+
+  private async saveSessions() {
+    const now = Date.now();
+    for (const key of Object.keys(this.sessions)) {
+      if (this.sessions[key].expiresAt <= now) delete this.sessions[key];
+    }
+    await this.writeJson(this.sessionsPath, this.sessions);
+  }
+
+  private async loadCreds() {
+    try {
+      const s = await fs.readFile(this.credPath, 'utf8');
+      this.credentials = JSON.parse(s) || {};
+    } catch (e) {
+      this.credentials = {};
+    }
   }
 
   private async saveCreds() {
@@ -76,39 +361,415 @@ class FileStorage implements IStorage {
     }
   }
 
-  async getGameState(): Promise<GameState | undefined> {
+  private roomFile(roomId: string): string {
+    if (roomId === DEFAULT_ROOM_ID) return this.filePath;
+    if (!isValidRoomId(roomId)) throw new Error(`Invalid room id: ${roomId}`);
+    return path.join(this.roomsDir, `${roomId}.json`);
+  }
+
+  private logFile(roomId: string): string {
+    if (!isValidRoomId(roomId)) throw new Error(`Invalid room id: ${roomId}`);
+    return path.join(this.logDir, `${roomId}.jsonl`);
+  }
+
+  private async readState(roomId: string): Promise<GameState | undefined> {
     try {
-      const s = await fs.readFile(this.filePath, 'utf8');
+      const s = await fs.readFile(this.roomFile(roomId), 'utf8');
       return JSON.parse(s) as GameState;
     } catch (e) {
       return undefined;
     }
   }
 
-  async saveGameState(gameState: GameState): Promise<void> {
-    const tmp = this.filePath + '.tmp';
-    await fs.writeFile(tmp, JSON.stringify(gameState), 'utf8');
-    await fs.rename(tmp, this.filePath);
+  async getGameState(roomId: string): Promise<GameState | undefined> {
+    const state = await this.readState(roomId);
+    return this.logLengths.has(roomId) ? state : this.recover(roomId, state);
+  }
+
+  // Saves are logged before the room file is written, so after a crash in
+  // between the file is behind its log (or missing, or torn). Checked the
+  // first time a room is read; the file is rebuilt from the log.
+  private async recover(roomId: string, state: GameState | undefined): Promise<GameState | undefined> {
+    const log = await this.getGameLog(roomId);
+    this.logLengths.set(roomId, log.length);
+    const last = log[log.length - 1];
+    if (!last) return state;
+    if (last.event.type === 'close') return undefined;
+    if ((state?.version ?? 0) >= last.version) return state;
+    const rebuilt = replayGameLog(log);
+    if (!rebuilt) return state;
+    console.warn(`[Storage] Rebuilt room ${roomId} from its log at version ${last.version}`);
+    await this.writeJson(this.roomFile(roomId), rebuilt);
+    return rebuilt;
+  }
+
+  async getGameLog(roomId: string): Promise<GameLogEntry[]> {
+    let s: string;
+    try {
+      s = await fs.readFile(this.logFile(roomId), 'utf8');
+    } catch (e) {
+      return [];
+    }
+    const entries: GameLogEntry[] = [];
+    for (const line of s.split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (e) {
+        // last line torn by a crash mid-append
+      }
+    }
+    return entries;
+  }
+
+  private async appendLog(roomId: string, entries: GameLogEntry[]) {
+    const length = await this.logLength(roomId);
+    await fs.appendFile(this.logFile(roomId), entries.map(e => JSON.stringify(e) + '\n').join(''), 'utf8');
+    this.logLengths.set(roomId, length + entries.length);
+  }
+
+  private async logLength(roomId: string): Promise<number> {
+    return this.logLengths.get(roomId) ?? (await this.getGameLog(roomId)).length;
+  }
+
+  // Saves and deletes of one room run one at a time, so the version check
+  // and the write of one cannot interleave with another's
+  private async queueRoomWrite(roomId: string, write: () => Promise<void>): Promise<void> {
+    const queued = (this.roomSaves.get(roomId) || Promise.resolve()).catch(() => {}).then(write);
+    this.roomSaves.set(roomId, queued);
+    try {
+      await queued;
+    } finally {
+      if (this.roomSaves.get(roomId) === queued) this.roomSaves.delete(roomId);
+    }
+  }
+
+  async saveGameState(roomId: string, gameState: GameState, events: GameLogEvent[]): Promise<void> {
+    const file = this.roomFile(roomId);
+    await this.queueRoomWrite(roomId, async () => {
+      const stored = await this.getGameState(roomId);
+      checkVersion(roomId, stored, gameState);
+      await this.appendLog(roomId, logEntries(await this.logLength(roomId), stored, gameState, events));
+      const tmp = file + '.tmp';
+      await fs.writeFile(tmp, JSON.stringify(gameState), 'utf8');
+      await fs.rename(tmp, file);
+    });
+  }
+
+  async deleteGameState(roomId: string): Promise<void> {
+    const file = this.roomFile(roomId);
+    await this.queueRoomWrite(roomId, async () => {
+      await this.appendLog(roomId, [closeEntry(await this.logLength(roomId), await this.getGameState(roomId))]);
+      try {
+        await fs.unlink(file);
+      } catch (e) {
+        // already gone
+      }
+    });
+  }
+
+  async listRoomIds(): Promise<string[]> {
+    const ids: string[] = [];
+    try {
+      await fs.access(this.filePath);
+      ids.push(DEFAULT_ROOM_ID);
+    } catch (e) {}
+    try {
+      const files = await fs.readdir(this.roomsDir);
+      for (const f of files) {
+        if (!f.endsWith('.json')) continue;
+        const id = f.slice(0, -'.json'.length);
+        if (isValidRoomId(id) && id !== DEFAULT_ROOM_ID) ids.push(id);
+      }
+    } catch (e) {}
+    return ids;
   }
 
   async setPlayerPassword(playerId: string, password: string): Promise<void> {
-    const hash = createHash('sha256').update(password).digest('hex');
-    this.credentials[playerId] = hash;
+    await this.ready;
+    this.credentials[playerId] = await hashPassword(password);
     await this.saveCreds();
   }
 
   async verifyPlayerPassword(playerId: string, password: string): Promise<boolean> {
-    const hash = createHash('sha256').update(password).digest('hex');
-    return this.credentials[playerId] === hash;
+    await this.ready;
+    const hash = this.credentials[playerId];
+    const ok = await verifyPassword(password, hash);
+    // Re-hash unsalted digests left over from before salting
+    if (ok && isLegacyHash(hash)) await this.setPlayerPassword(playerId, password);
+    return ok;
+  }
+
+  async findPlayerIdByName(roomId: string, name: string): Promise<string | undefined> {
+    const gs = await this.getGameState(roomId);
+    if (!gs) return undefined;
+    const p = gs.players.find(pl => pl.name.trim().toLowerCase() === name.trim().toLowerCase());
+    return p?.id;
+  }
+
+  async findAccountByName(name: string): Promise<Account | undefined> {
+    await this.ready;
+    const key = normalizeName(name);
+    return Object.values(this.accounts).find(r => normalizeName(r.account.name) === key)?.account;
+  }
+
+  async createAccount(name: string, password: string): Promise<Account> {
+    await this.ready;
+    const record = await newAccountRecord(name, password);
+    this.accounts[record.account.id] = record;
+    await this.writeJson(this.accountsPath, this.accounts);
+    return record.account;
+  }
+
+  async verifyAccountPassword(accountId: string, password: string): Promise<boolean> {
+    await this.ready;
+    const record = this.accounts[accountId];
+    const ok = await verifyPassword(password, record?.passwordHash);
+    if (ok && isLegacyHash(record.passwordHash)) {
+      record.passwordHash = await hashPassword(password);
+      await this.writeJson(this.accountsPath, this.accounts);
+    }
+    return ok;
+  }
+
+  async getPlayerStats(accountId: string): Promise<PlayerStats | undefined> {
+    await this.ready;
+    return this.playerStats[accountId];
+  }
+
+  async savePlayerStats(stats: PlayerStats): Promise<void> {
+    await this.ready;
+    this.playerStats[stats.accountId] = stats;
+    await this.writeJson(this.statsPath, this.playerStats);
+  }
+
+  private archiveFile(gameId: string): string {
+    if (!isValidGameId(gameId)) throw new Error(`Invalid game id: ${gameId}`);
+    return path.join(this.archiveDir, `${gameId}.json`);
+  }
+
+  async archiveGame(game: ArchivedGame): Promise<void> {
+    await this.writeJson(this.archiveFile(game.id), game);
+  }
+
+  async getArchivedGame(gameId: string): Promise<ArchivedGame | undefined> {
+    try {
+      const s = await fs.readFile(this.archiveFile(gameId), 'utf8');
+      return JSON.parse(s) as ArchivedGame;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  async listArchivedGames(): Promise<ArchivedGame[]> {
+    const games: ArchivedGame[] = [];
+    try {
+      for (const f of await fs.readdir(this.archiveDir)) {
+        if (!f.endsWith('.json')) continue;
+        const game = await this.getArchivedGame(f.slice(0, -'.json'.length));
+        if (game) games.push(game);
+      }
+    } catch (e) {}
+    return games;
+  }
+
+  async createSession(playerId: string): Promise<string> {
+    await this.ready;
+    const token = newSessionToken();
+    this.sessions[sessionKey(token)] = { playerId, expiresAt: Date.now() + SESSION_TTL_MS };
+    await this.saveSessions();
+    return token;
+  }
+
+  async getSessionPlayer(token: string): Promise<string | undefined> {
+    await this.ready;
+    const session = this.sessions[sessionKey(token)];
+    return session && session.expiresAt > Date.now() ? session.playerId : undefined;
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    await this.ready;
+    delete this.sessions[sessionKey(token)];
+    await this.saveSessions();
+  }
+
+  async deleteSessionsForPlayer(playerId: string): Promise<void> {
+    await this.ready;
+    for (const key of Object.keys(this.sessions)) {
+      if (this.sessions[key].playerId === playerId) delete this.sessions[key];
+    }
+    await this.saveSessions();
+  }
+}
+
+/**
+ * Everything in one SQLite database (tables in dbSchema.ts). Pending
+ * migrations from `migrations/` are applied on open. Queries are
+ * synchronous, so each save checks the version and writes in one
+ * transaction.
+ */
+class SqlStorage implements IStorage {
+  private db: BetterSQLite3Database<typeof tables>;
+
+  constructor(file?: string) {
+    const dbPath = file || 'data/game.db';
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    const sqlite = new Database(dbPath);
+    sqlite.pragma('journal_mode = WAL');
+    sqlite.pragma('foreign_keys = ON');
+    this.db = drizzle(sqlite, { schema: tables });
+    migrate(this.db, { migrationsFolder: process.env.GAME_DB_MIGRATIONS || 'migrations' });
+  }
+
+  // Also used inside saves: queries are synchronous on the one connection,
+  // so within a transaction they see its writes
+  async getGameState(roomId: string): Promise<GameState | undefined> {
+    return this.readRoom(roomId);
+  }
+
+  private readRoom(roomId: string): GameState | undefined {
+    const row = this.db.select().from(tables.games).where(eq(tables.games.roomId, roomId)).get();
+    if (!row) return undefined;
+    const seats = this.db.select().from(tables.players).where(eq(tables.players.roomId, roomId)).orderBy(asc(tables.players.seat)).all();
+    const history = this.db.select().from(tables.moves).where(eq(tables.moves.roomId, roomId)).orderBy(asc(tables.moves.seq)).all();
+    return { ...row.state, version: row.version, players: seats.map(p => p.data), moves: history.map(m => m.data) };
+  }
+
+  async saveGameState(roomId: string, gameState: GameState, events: GameLogEvent[]): Promise<void> {
+    const { players, moves, version, ...state } = gameState;
+    this.db.transaction(tx => {
+      const stored = this.readRoom(roomId);
+      checkVersion(roomId, stored, gameState);
+      this.appendLog(tx, roomId, entries => logEntries(entries, stored, gameState, events));
+      const row = { version: gameState.version!, state, updatedAt: Date.now() };
+      tx.insert(tables.games).values({ roomId, ...row }).onConflictDoUpdate({ target: tables.games.roomId, set: row }).run();
+
+      tx.delete(tables.players).where(eq(tables.players.roomId, roomId)).run();
+      if (players.length > 0) {
+        tx.insert(tables.players).values(players.map((p, seat) => ({
+          id: p.id, roomId, seat, accountId: p.accountId ?? null, name: p.name, data: p,
+        }))).run();
+      }
+      tx.delete(tables.moves).where(eq(tables.moves.roomId, roomId)).run();
+      if (moves && moves.length > 0) {
+        tx.insert(tables.moves).values(moves.map((m, seq) => ({
+          roomId, seq, playerId: m.playerId, type: m.type ?? null, score: m.score, data: m,
+        }))).run();
+      }
+    });
+  }
+
+  async deleteGameState(roomId: string): Promise<void> {
+    this.db.transaction(tx => {
+      const stored = this.readRoom(roomId);
+      this.appendLog(tx, roomId, entries => [closeEntry(entries, stored)]);
+      // Players and moves go with it (ON DELETE CASCADE)
+      tx.delete(tables.games).where(eq(tables.games.roomId, roomId)).run();
+    });
+  }
+
+  // `entriesFor` gets the number of entries logged so far
+  private appendLog(tx: Pick<BetterSQLite3Database<typeof tables>, 'select' | 'insert'>, roomId: string, entriesFor: (logged: number) => GameLogEntry[]) {
+    const logged = tx.select({ n: count() }).from(tables.gameEvents).where(eq(tables.gameEvents.roomId, roomId)).get()?.n ?? 0;
+    const entries = entriesFor(logged);
+    if (entries.length === 0) return;
+    tx.insert(tables.gameEvents).values(entries.map(e => ({
+      roomId, seq: e.seq, version: e.version, at: e.at, type: e.event.type, event: e.event, diff: e.diff,
+    }))).run();
+  }
+
+  async getGameLog(roomId: string): Promise<GameLogEntry[]> {
+    return this.db.select().from(tables.gameEvents).where(eq(tables.gameEvents.roomId, roomId)).orderBy(asc(tables.gameEvents.seq)).all()
+      .map(e => ({ seq: e.seq, at: e.at, version: e.version, event: e.event, diff: e.diff }));
+  }
+
+  async listRoomIds(): Promise<string[]> {
+    return this.db.select({ roomId: tables.games.roomId }).from(tables.games).all().map(r => r.roomId);
+  }
+
+  async setPlayerPassword(playerId: string, password: string): Promise<void> {
+    const passwordHash = await hashPassword(password);
+    this.db.insert(tables.credentials).values({ playerId, passwordHash })
+      .onConflictDoUpdate({ target: tables.credentials.playerId, set: { passwordHash } }).run();
+  }
+
+  async verifyPlayerPassword(playerId: string, password: string): Promise<boolean> {
+    const row = this.db.select().from(tables.credentials).where(eq(tables.credentials.playerId, playerId)).get();
+    return verifyPassword(password, row?.passwordHash);
   }
 
-  async findPlayerIdByName(name: string): Promise<string | undefined> {
-    const gs = await this.getGameState();
+  async findPlayerIdByName(roomId: string, name: string): Promise<string | undefined> {
+    const gs = await this.getGameState(roomId);
     if (!gs) return undefined;
     const p = gs.players.find(pl => pl.name.trim().toLowerCase() === name.trim().toLowerCase());
     return p?.id;
   }
+
+  async findAccountByName(name: string): Promise<Account | undefined> {
+    const row = this.db.select().from(tables.accounts).where(eq(tables.accounts.nameKey, normalizeName(name))).get();
+    return row ? { id: row.id, name: row.name, createdAt: row.createdAt } : undefined;
+  }
+
+  async createAccount(name: string, password: string): Promise<Account> {
+    const { account, passwordHash } = await newAccountRecord(name, password);
+    this.db.insert(tables.accounts).values({ ...account, nameKey: normalizeName(account.name), passwordHash }).run();
+    return account;
+  }
+
+  async verifyAccountPassword(accountId: string, password: string): Promise<boolean> {
+    const row = this.db.select().from(tables.accounts).where(eq(tables.accounts.id, accountId)).get();
+    return verifyPassword(password, row?.passwordHash);
+  }
+
+  async getPlayerStats(accountId: string): Promise<PlayerStats | undefined> {
+    return this.db.select().from(tables.playerStats).where(eq(tables.playerStats.accountId, accountId)).get()?.data;
+  }
+
+  async savePlayerStats(stats: PlayerStats): Promise<void> {
+    const row = { data: stats, updatedAt: stats.updatedAt };
+    this.db.insert(tables.playerStats).values({ accountId: stats.accountId, ...row })
+      .onConflictDoUpdate({ target: tables.playerStats.accountId, set: row }).run();
+  }
+
+  async archiveGame(game: ArchivedGame): Promise<void> {
+    const row = { roomId: game.roomId ?? null, endedAt: game.endedAt, imported: !!game.imported, data: game };
+    this.db.insert(tables.archivedGames).values({ id: game.id, ...row })
+      .onConflictDoUpdate({ target: tables.archivedGames.id, set: row }).run();
+  }
+
+  async getArchivedGame(gameId: string): Promise<ArchivedGame | undefined> {
+    return this.db.select().from(tables.archivedGames).where(eq(tables.archivedGames.id, gameId)).get()?.data;
+  }
+
+  async listArchivedGames(): Promise<ArchivedGame[]> {
+    return this.db.select().from(tables.archivedGames).all().map(r => r.data);
+  }
+
+  async createSession(playerId: string): Promise<string> {
+    const token = newSessionToken();
+    this.db.delete(tables.sessions).where(lte(tables.sessions.expiresAt, Date.now())).run();
+    this.db.insert(tables.sessions).values({ tokenHash: sessionKey(token), playerId, expiresAt: Date.now() + SESSION_TTL_MS }).run();
+    return token;
+  }
+
+  async getSessionPlayer(token: string): Promise<string | undefined> {
+    const session = this.db.select().from(tables.sessions).where(eq(tables.sessions.tokenHash, sessionKey(token))).get();
+    return session && session.expiresAt > Date.now() ? session.playerId : undefined;
+  }
+
+  async deleteSession(token: string): Promise<void> {
+    this.db.delete(tables.sessions).where(eq(tables.sessions.tokenHash, sessionKey(token))).run();
+  }
+
+  async deleteSessionsForPlayer(playerId: string): Promise<void> {
+    this.db.delete(tables.sessions).where(eq(tables.sessions.playerId, playerId)).run();
+  }
 }
 
+// USE_SQLITE_STORAGE=true keeps everything in the SQLite database at
+// GAME_DB_FILE; otherwise JSON files, or memory with USE_FILE_STORAGE=false
+const useSqlite = process.env.USE_SQLITE_STORAGE === 'true';
 const useFile = process.env.USE_FILE_STORAGE !== 'false';
-export const storage = useFile ? new FileStorage(process.env.GAME_STATE_FILE) : new MemStorage();
+export const storage: IStorage = useSqlite
+  ? new SqlStorage(process.env.GAME_DB_FILE)
+  : useFile ? new FileStorage(process.env.GAME_STATE_FILE) : new MemStorage();
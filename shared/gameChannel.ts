@@ -0,0 +1,102 @@
+import type { BoardCell, GameState, Move } from "./schema";
+
+// Game channel on the /ws socket. Clients subscribe to a room and get a full
+// snapshot, then one numbered diff per state change. A diff whose `seq` is
+// not exactly one past the last one seen means something was missed; the
+// client then asks for a resync and gets a fresh snapshot.
+
+// What caused the server to publish a new state
+export type GameEvent =
+  | 'init'
+  | 'join'
+  | 'leave'
+  | 'bot'
+  | 'settings'
+  | 'start'
+  | 'update'
+  | 'pause'
+  | 'resume'
+  | 'move'
+  | 'challenge'
+  | 'takeback'
+  | 'hint'
+  | 'timeout'
+  | 'preview'
+  | 'avatar'
+  | 'closed';
+
+// Changes between two states of one game. Applying a diff is idempotent, so
+// a client whose cache already holds the newer state is left unchanged.
+export interface GameDiff {
+  // Top-level fields with new values (board and moves are sent separately
+  // below when that is smaller)
+  set: Partial<GameState>;
+  // Top-level fields that were removed
+  unset: (keyof GameState)[];
+  // Board squares that changed, as [row, col, cell]
+  board?: [number, number, BoardCell][];
+  // Moves from index `from` onwards; earlier moves are unchanged
+  moves?: { from: number; items: Move[] };
+}
+
+export type GameChannelClientMessage =
+  // The server sends the game as the socket's signed-in player sees it;
+  // without a seat in the game the socket gets the spectator view
+  | { type: 'game-subscribe'; roomId: string }
+  | { type: 'game-unsubscribe'; roomId: string }
+  | { type: 'game-resync'; roomId: string };
+
+export type GameChannelServerMessage =
+  | { type: 'game-snapshot'; roomId: string; seq: number; event?: GameEvent; state: GameState | null }
+  | { type: 'game-diff'; roomId: string; seq: number; event: GameEvent; diff: GameDiff };
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Diff `next` against `prev`, or null when nothing changed.
+ */
+export function computeGameDiff(prev: GameState, next: GameState): GameDiff | null {
+  const diff: GameDiff = { set: {}, unset: [] };
+  let changed = false;
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof GameState)[]);
+
+  for (const key of Array.from(keys)) {
+    const before = prev[key];
+    const after = next[key];
+    if (same(before, after)) continue;
+    changed = true;
+    if (after === undefined) {
+      diff.unset.push(key);
+    } else if (key === 'board' && prev.board?.length === next.board.length) {
+      diff.board = [];
+      next.board.forEach((row, r) => row.forEach((cell, c) => {
+        if (!same(prev.board[r]?.[c] ?? null, cell)) diff.board!.push([r, c, cell]);
+      }));
+    } else if (key === 'moves' && prev.moves && next.moves) {
+      // Usually moves are only appended; send the tail from the first change
+      let from = 0;
+      while (from < prev.moves.length && from < next.moves.length && same(prev.moves[from], next.moves[from])) from++;
+      diff.moves = { from, items: next.moves.slice(from) };
+    } else {
+      (diff.set as Record<string, unknown>)[key] = after;
+    }
+  }
+
+  return changed ? diff : null;
+}
+
+/**
+ * Apply `diff` to `state`, returning a new state object.
+ */
+export function applyGameDiff(state: GameState, diff: GameDiff): GameState {
+  const next = { ...state, ...diff.set } as GameState;
+  for (const key of diff.unset) delete next[key];
+  if (diff.board) {
+    next.board = state.board.map(row => [...row]);
+    for (const [r, c, cell] of diff.board) next.board[r][c] = cell;
+  }
+  if (diff.moves) {
+    next.moves = [...(state.moves || []).slice(0, diff.moves.from), ...diff.moves.items];
+  }
+  return next;
+}
@@ -0,0 +1,62 @@
+import type { BotLevel, GameSettings, GameState, Move } from "./schema";
+import { applyGameDiff, type GameDiff } from "./gameChannel";
+
+// Append-only log of everything that happened in a room. Every save of the
+// room's state appends what caused it together with the diff from the state
+// before, so folding the diffs in order rebuilds the state at any point.
+
+export type GameLogEvent =
+  | { type: 'create'; roomName?: string }
+  // The game was wiped and set up again (`playerId` asked for it, if anyone)
+  | { type: 'reset'; playerId: string | null }
+  | { type: 'join'; playerId: string; name: string; bot?: BotLevel }
+  // `by` is set when another player took the seat away (bots)
+  | { type: 'leave'; playerId: string; by?: string }
+  | { type: 'settings'; playerId: string; settings: Partial<GameSettings> }
+  | { type: 'ready'; playerId: string; ready: boolean }
+  | { type: 'start'; gameId: string; order: string[] }
+  | { type: 'play'; playerId: string; words: string[]; score: number }
+  | { type: 'skip'; playerId: string; reason?: string }
+  | { type: 'exchange'; playerId: string; count: number }
+  | { type: 'challenge'; playerId: string; upheld: boolean }
+  // `applied` when the play was taken back by this step
+  | { type: 'takeback'; playerId: string; step: 'request' | 'approve' | 'decline'; applied: boolean }
+  | { type: 'hint'; playerId: string; penalty: number }
+  | { type: 'pause'; playerId: string }
+  | { type: 'resume'; playerId: string }
+  | { type: 'avatar'; playerId: string }
+  | { type: 'end'; gameId?: string; reason?: string; winnerIds: string[] }
+  | { type: 'close' };
+
+export interface GameLogEntry {
+  // Position in the room's log, from 0
+  seq: number;
+  at: number;
+  // GameState.version after the event
+  version: number;
+  event: GameLogEvent;
+  // Changes to the state; null for events recorded alongside another one
+  // (a game ending with the play that ended it) and for 'close'
+  diff: GameDiff | null;
+}
+
+/** The log event for a play, pass or exchange */
+export function moveEvent(move: Move): GameLogEvent {
+  if (move.type === 'skip') return { type: 'skip', playerId: move.playerId, reason: move.meta?.reason };
+  if (move.type === 'exchange') return { type: 'exchange', playerId: move.playerId, count: move.meta?.discarded?.length ?? 0 };
+  return { type: 'play', playerId: move.playerId, words: move.words, score: move.score };
+}
+
+/**
+ * Fold a room's log (or a prefix of it) into its state; null when the room
+ * was closed or nothing was logged. A log starts with a diff from nothing,
+ * so no earlier state is needed.
+ */
+export function replayGameLog(entries: GameLogEntry[]): GameState | null {
+  let state: GameState | null = null;
+  for (const entry of entries) {
+    if (entry.event.type === 'close') state = null;
+    else if (entry.diff) state = applyGameDiff(state ?? ({} as GameState), entry.diff);
+  }
+  return state;
+}
@@ -0,0 +1,148 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { exportGcg, importGcg, type GcgGame } from "./gcg";
+import type { Move } from "./schema";
+
+const anna = { id: 'p1', name: 'Анна Петрова', rack: ['Ж'] };
+const boris = { id: 'p2', name: 'Борис', rack: [] };
+
+function move(player: typeof anna, type: Move['type'], score: number, meta: Move['meta'], words: string[] = []): Move {
+  return { playerId: player.id, playerName: player.name, words, score, turn: 0, timestamp: 0, type, meta };
+}
+
+// Every kind of line the notation has
+const game: GcgGame = {
+  title: 'Партия',
+  players: [anna, boris],
+  moves: [
+    // КОТ across from the centre, Т a blank
+    move(anna, 'play', 8, {
+      rackBefore: ['К', 'О', '?', 'А', 'Б', 'В', 'Г'],
+      placedTiles: [
+        { row: 7, col: 7, letter: 'К' },
+        { row: 7, col: 8, letter: 'О' },
+        { row: 7, col: 9, letter: 'Т', blank: true },
+      ],
+    }, ['КОТ']),
+    move(boris, 'exchange', 0, { rackBefore: ['Ъ', 'Ы', 'Е'], discarded: ['Ъ', 'Ы'] }),
+    move(anna, 'skip', 0, { rackBefore: ['А', 'Б'] }),
+    // Борис's hints of a turn that ended without a move of his
+    move(boris, 'adjustment', 0, { reason: 'hints', hints: { count: 1, penalty: 2 } }),
+    // КИТ down from К, withdrawn after Анна's challenge
+    move(boris, 'challenged', 0, {
+      rackBefore: ['И', 'Т'],
+      placedTiles: [{ row: 8, col: 7, letter: 'И' }, { row: 9, col: 7, letter: 'Т' }],
+      originalScore: 6,
+      challenge: { by: anna.id, upheld: true },
+    }, ['КИТ']),
+    // ОН down from О, challenged by Борис in vain; two hints taken this turn
+    move(anna, 'play', 2, {
+      rackBefore: ['Н', 'А'],
+      placedTiles: [{ row: 8, col: 8, letter: 'Н' }],
+      challenge: { by: boris.id, upheld: false, penalty: 5 },
+      hints: { count: 2, penalty: 6 },
+    }, ['ОН']),
+    // A free hint before running out of time
+    move(boris, 'skip', -10, { rackBefore: ['Е'], reason: 'timeout', penalty: 10, hints: { count: 1, penalty: 0 } }),
+    move(anna, 'adjustment', -4, { reason: 'overtime' }),
+    move(anna, 'adjustment', -10, { reason: 'rack_penalty', tiles: ['Ж'] }),
+    move(boris, 'adjustment', 10, { reason: 'going_out_bonus', tiles: ['Ж'] }),
+  ],
+};
+
+const text = exportGcg(game);
+const imported = importGcg(text);
+
+test('writes each kind of move as GCG', () => {
+  assert.deepEqual(text.trimEnd().split('\n'), [
+    '#character-encoding UTF-8',
+    '#title Партия',
+    '#player1 Анна_Петрова Анна Петрова',
+    '#player2 Борис Борис',
+    '>Анна_Петрова: КО?АБВГ 8H КОт +8 8',
+    '>Борис: ЪЫЕ -ЪЫ +0 0',
+    '>Анна_Петрова: АБ - +0 8',
+    '#hints Борис 1',
+    '>Борис: (hint) -2 -2',
+    '>Борис: ИТ H8 .ИТ +6 4',
+    '>Борис: ИТ -- -6 -2',
+    '>Анна_Петрова: НА I8 .Н +2 10',
+    '>Борис: (challenge) -5 -7',
+    '#hints Анна_Петрова 2',
+    '>Анна_Петрова: (hint) -6 4',
+    '>Борис: Е - -10 -17',
+    '#hints Борис 1',
+    '>Анна_Петрова: (time) -4 0',
+    '>Анна_Петрова: (Ж) -10 -10',
+    '>Борис: (Ж) +10 -7',
+  ]);
+});
+
+test('reads back players and the title', () => {
+  assert.equal(imported.title, 'Партия');
+  assert.deepEqual(imported.players.map(p => p.name), ['Анна Петрова', 'Борис']);
+  // The rack penalised at the end is the player's last rack
+  assert.deepEqual(imported.players[0].rack, ['Ж']);
+});
+
+test('reads back plays with their tiles and blanks', () => {
+  const [first] = imported.moves;
+  assert.equal(first.type, 'play');
+  assert.deepEqual(first.words, ['КОТ']);
+  assert.equal(first.score, 8);
+  assert.deepEqual(first.meta?.rackBefore, game.moves[0].meta?.rackBefore);
+  assert.deepEqual(first.meta?.placedTiles, [
+    { row: 7, col: 7, letter: 'К', blank: false },
+    { row: 7, col: 8, letter: 'О', blank: false },
+    { row: 7, col: 9, letter: 'Т', blank: true },
+  ]);
+});
+
+test('reads back exchanges, passes and timeouts', () => {
+  const [, exchange, pass, , , , timeout] = imported.moves;
+  assert.equal(exchange.type, 'exchange');
+  assert.deepEqual(exchange.meta?.discarded, ['Ъ', 'Ы']);
+  assert.equal(pass.type, 'skip');
+  assert.equal(pass.score, 0);
+  assert.equal(timeout.type, 'skip');
+  assert.equal(timeout.meta?.reason, 'timeout');
+  assert.equal(timeout.score, -10);
+});
+
+test('reads back challenges', () => {
+  const [, , , , withdrawn, upheld] = imported.moves;
+  assert.equal(withdrawn.type, 'challenged');
+  assert.equal(withdrawn.score, 0);
+  assert.equal(withdrawn.meta?.originalScore, 6);
+  assert.equal(withdrawn.meta?.challenge?.upheld, true);
+  assert.deepEqual(upheld.words, ['ОН']);
+  assert.deepEqual(upheld.meta?.challenge, { by: imported.players[1].id, upheld: false, penalty: 5 });
+});
+
+test('reads back hints, free ones too', () => {
+  assert.deepEqual(imported.moves[5].meta?.hints, { count: 2, penalty: 6 });
+  assert.deepEqual(imported.moves[6].meta?.hints, { count: 1, penalty: 0 });
+});
+
+test('reads back hints of a turn without a move', () => {
+  const entry = imported.moves[3];
+  assert.deepEqual([entry.playerName, entry.type, entry.score], ['Борис', 'adjustment', 0]);
+  assert.deepEqual(entry.meta, { reason: 'hints', hints: { count: 1, penalty: 2 } });
+});
+
+test('reads back end-of-game adjustments', () => {
+  const adjustments = imported.moves.slice(7);
+  assert.deepEqual(adjustments.map(m => [m.type, m.score, m.meta?.reason, m.meta?.tiles]), [
+    ['adjustment', -4, 'overtime', undefined],
+    ['adjustment', -10, 'rack_penalty', ['Ж']],
+    ['adjustment', 10, 'going_out_bonus', ['Ж']],
+  ]);
+});
+
+test('writes an imported game back unchanged', () => {
+  assert.equal(exportGcg(imported), text);
+});
+
+test('names the malformed line', () => {
+  assert.throws(() => importGcg('#player1 А А\n>А: 8H КОТ +8 8\n>Б: - +0 0\n'), /Строка 3: неизвестный игрок Б/);
+});
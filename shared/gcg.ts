@@ -0,0 +1,300 @@
+import { BOARD_SIZE, type BoardCell, type Move, type PlacedTile, type Player } from "./schema";
+
+// GCG-style game records, the plain-text notation used to share crossword
+// games, adapted for the Russian tile set:
+//
+//   #character-encoding UTF-8
+//   #player1 Анна Анна Петрова
+//   #player2 Борис Борис
+//   >Анна: КОТЁЛ?А 8H КОТ +10 10
+//   >Борис: ДЕРЕВОМ H8 .ОМ +7 7
+//   >Анна: ЁЛ?АКАЛ -ЁЛ +0 10
+//   >Борис: ДЕРЕВО - +0 7
+//   >Борис: (ДЕРЕВО) -12 -5
+//
+// A coordinate starting with the row number is a horizontal play, one starting
+// with the column letter a vertical play. Columns are the Latin letters A–O.
+// In words, `.` is a tile already on the board and a lowercase letter a blank.
+// After the player's rack: a play, `-TILES` (exchange), `-` (pass), `--` (the
+// previous play withdrawn after a challenge), `(challenge)` (points lost on a
+// failed challenge), `(TILES)` (end-of-game rack penalty or going-out bonus),
+// `(time)` (overtime penalty) or `(hint)` (points paid for the turn's hints).
+// Each line ends with the move score and the player's running total. Hints
+// taken in a turn follow its move as `#hints NICK COUNT`.
+
+const COLUMNS = 'ABCDEFGHIJKLMNO'.slice(0, BOARD_SIZE);
+
+export interface GcgGame {
+  title?: string;
+  players: Pick<Player, 'id' | 'name' | 'rack'>[];
+  moves: Move[];
+}
+
+// Nicknames may not contain spaces; the full name follows on the player line
+function nickOf(name: string): string {
+  return name.trim().replace(/\s+/g, '_') || 'игрок';
+}
+
+function rackText(rack: unknown): string {
+  return Array.isArray(rack) ? rack.filter(Boolean).join('') : '';
+}
+
+function signed(n: number): string {
+  return n < 0 ? `${n}` : `+${n}`;
+}
+
+export function formatCoordinate(row: number, col: number, vertical: boolean): string {
+  return vertical ? `${COLUMNS[col]}${row + 1}` : `${row + 1}${COLUMNS[col]}`;
+}
+
+export function parseCoordinate(text: string): { row: number; col: number; vertical: boolean } | null {
+  const m = /^(?:(\d{1,2})([A-Z])|([A-Z])(\d{1,2}))$/i.exec(text);
+  if (!m) return null;
+  const vertical = !!m[3];
+  const row = Number(vertical ? m[4] : m[1]) - 1;
+  const col = COLUMNS.indexOf((vertical ? m[3] : m[2]).toUpperCase());
+  if (row < 0 || row >= BOARD_SIZE || col < 0) return null;
+  return { row, col, vertical };
+}
+
+// The main word of a play: the line through its tiles, with tiles already on
+// the board written as `.`
+function mainWord(board: BoardCell[][], placed: PlacedTile[]): { row: number; col: number; vertical: boolean; word: string } {
+  const first = placed.reduce((a, t) => (t.row < a.row || (t.row === a.row && t.col < a.col) ? t : a), placed[0]);
+  const occupied = (r: number, c: number) => r >= 0 && c >= 0 && r < BOARD_SIZE && c < BOARD_SIZE && !!board[r][c];
+  const vertical = placed.length > 1
+    ? placed.every(t => t.col === first.col)
+    : !occupied(first.row, first.col - 1) && !occupied(first.row, first.col + 1) && (occupied(first.row - 1, first.col) || occupied(first.row + 1, first.col));
+  const [dr, dc] = vertical ? [1, 0] : [0, 1];
+
+  let r = first.row;
+  let c = first.col;
+  while (occupied(r - dr, c - dc)) { r -= dr; c -= dc; }
+  const start = { row: r, col: c };
+  let word = '';
+  while (occupied(r, c)) {
+    const tile = placed.find(t => t.row === r && t.col === c);
+    word += tile ? (tile.blank ? tile.letter.toLowerCase() : tile.letter) : '.';
+    r += dr;
+    c += dc;
+  }
+  return { ...start, vertical, word };
+}
+
+/**
+ * Write a game as GCG text. Plays need `meta.placedTiles` (recorded since
+ * replays were added); older plays are written as passes with a note.
+ */
+export function exportGcg(game: GcgGame): string {
+  const nicks: Record<string, string> = {};
+  const lines = ['#character-encoding UTF-8'];
+  if (game.title) lines.push(`#title ${game.title}`);
+  const playerIds = Array.from(new Set([...game.players.map(p => p.id), ...game.moves.map(m => m.playerId)]));
+  playerIds.forEach((id, i) => {
+    const name = game.players.find(p => p.id === id)?.name || game.moves.find(m => m.playerId === id)?.playerName || id;
+    let nick = nickOf(name);
+    while (Object.values(nicks).includes(nick)) nick += '_';
+    nicks[id] = nick;
+    lines.push(`#player${i + 1} ${nick} ${name}`);
+  });
+
+  let board: BoardCell[][] = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null));
+  const totals: Record<string, number> = {};
+  const line = (playerId: string, rack: string, body: string, score: number) => {
+    totals[playerId] = (totals[playerId] || 0) + score;
+    lines.push(`>${nicks[playerId]}: ${rack} ${body} ${signed(score)} ${totals[playerId]}`.replace(/ {2,}/g, ' '));
+  };
+
+  for (const m of game.moves) {
+    const rack = rackText(m.meta?.rackBefore);
+    const placed: PlacedTile[] = Array.isArray(m.meta?.placedTiles) ? m.meta!.placedTiles : [];
+    switch (m.type) {
+      case 'exchange':
+        line(m.playerId, rack, `-${(m.meta?.discarded || []).join('')}`, m.score);
+        break;
+      case 'adjustment':
+        // Hints of a turn without a move have only the hint lines below
+        if (m.meta?.reason === 'hints') break;
+        line(m.playerId, '', m.meta?.reason === 'overtime' ? '(time)' : `(${(m.meta?.tiles || []).join('')})`, m.score);
+        break;
+      case 'play':
+      case 'challenged':
+      case 'takeback': {
+        if (placed.length === 0) {
+          lines.push(`#note ${nicks[m.playerId]}: ${m.words.join(', ')} (нет записи фишек)`);
+          line(m.playerId, rack, '-', m.score);
+          break;
+        }
+        const next = board.map(row => [...row]);
+        for (const t of placed) next[t.row][t.col] = { letter: t.letter, blank: !!t.blank };
+        const main = mainWord(next, placed);
+        // GCG has no takebacks; they are written as withdrawn plays
+        const withdrawn = m.type === 'challenged' || m.type === 'takeback';
+        const score = withdrawn ? m.meta?.originalScore ?? 0 : m.score;
+        line(m.playerId, rack, `${formatCoordinate(main.row, main.col, main.vertical)} ${main.word}`, score);
+        if (withdrawn) {
+          line(m.playerId, rack, '--', -score);
+        } else {
+          board = next;
+        }
+        const challenge = m.meta?.challenge;
+        if (challenge && !challenge.upheld && challenge.penalty && nicks[challenge.by]) {
+          line(challenge.by, '', '(challenge)', -challenge.penalty);
+        }
+        break;
+      }
+      default:
+        line(m.playerId, rack, '-', m.score);
+    }
+    // Hints taken in the move's turn, and what they cost if anything
+    const hints = m.meta?.hints;
+    if (hints?.count > 0) {
+      lines.push(`#hints ${nicks[m.playerId]} ${hints.count}`);
+      if (hints.penalty > 0) line(m.playerId, '', '(hint)', -hints.penalty);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read GCG text into players and moves that the replay viewer understands.
+ * Throws an Error naming the offending line when the text is malformed.
+ */
+export function importGcg(text: string): GcgGame {
+  const game: GcgGame = { players: [], moves: [] };
+  const byNick: Record<string, Pick<Player, 'id' | 'name' | 'rack'>> = {};
+  const board: BoardCell[][] = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null));
+  const start = Date.now();
+
+  // Hints follow the move of their turn; a turn that ended without a move of
+  // the player's gets a zero-score entry for them. `#hints` starts a turn's
+  // hints, `(hint)` adds their cost.
+  const hintsMove = (player: Pick<Player, 'id' | 'name'>, first: boolean): Move => {
+    const last = game.moves[game.moves.length - 1];
+    if (last?.playerId === player.id && !(first && last.meta?.hints)) return last;
+    const entry: Move = {
+      playerId: player.id,
+      playerName: player.name,
+      words: [],
+      score: 0,
+      turn: game.moves.length + 1,
+      timestamp: start + game.moves.length,
+      type: 'adjustment',
+      meta: { reason: 'hints' },
+    };
+    game.moves.push(entry);
+    return entry;
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const fail = (why: string): never => { throw new Error(`Строка ${index + 1}: ${why}`); };
+    const line = raw.trim();
+    if (!line) return;
+
+    if (line.startsWith('#')) {
+      const player = /^#player(\d+)\s+(\S+)(?:\s+(.+))?$/.exec(line);
+      const hints = /^#hints\s+(\S+)\s+(\d+)$/.exec(line);
+      if (hints) {
+        const move = hintsMove(byNick[hints[1]] || fail(`неизвестный игрок ${hints[1]}`), true);
+        move.meta = { ...move.meta, hints: { count: Number(hints[2]), penalty: move.meta?.hints?.penalty ?? 0 } };
+      } else if (player) {
+        const p = { id: `gcg_${player[1]}`, name: (player[3] || player[2]).trim(), rack: [] };
+        byNick[player[2]] = p;
+        game.players.push(p);
+      } else if (line.startsWith('#title ')) {
+        game.title = line.slice('#title '.length).trim();
+      }
+      return;
+    }
+
+    const m = /^>(\S+?):\s*(.*?)\s+([+-]\d+)\s+(-?\d+)$/.exec(line);
+    if (!m) fail('не похоже на ход');
+    const [, nick, body, scoreText] = m!;
+    const player = byNick[nick] || fail(`неизвестный игрок ${nick}`);
+    const score = Number(scoreText);
+    const parts = body.split(/\s+/).filter(Boolean);
+    const move: Move = {
+      playerId: player.id,
+      playerName: player.name,
+      words: [],
+      score,
+      turn: game.moves.length + 1,
+      timestamp: start + game.moves.length,
+      type: 'skip',
+      meta: {},
+    };
+
+    // The rack (letters and ? only) may be omitted when unknown or empty
+    const rack = parts.length > 0 && /^[А-ЯЁ?]+$/.test(parts[0]) ? parts.shift()! : '';
+    if (rack) move.meta!.rackBefore = Array.from(rack);
+    const action = parts[0] || fail('нет хода');
+
+    if (action === '--') {
+      const prev = [...game.moves].reverse().find(x => x.playerId === player.id && x.type === 'play');
+      if (!prev) fail('отмена хода без хода');
+      for (const t of prev!.meta!.placedTiles as PlacedTile[]) board[t.row][t.col] = null;
+      prev!.meta = { ...prev!.meta, originalScore: prev!.score, challenge: { upheld: true } };
+      prev!.type = 'challenged';
+      prev!.score = 0;
+      return;
+    }
+    if (action === '(challenge)') {
+      const prev = game.moves[game.moves.length - 1];
+      if (!prev || prev.type !== 'play') fail('оспаривание без хода');
+      prev.meta = { ...prev.meta, challenge: { by: player.id, upheld: false, penalty: -score } };
+      return;
+    }
+    if (action === '(hint)') {
+      const prev = hintsMove(player, false);
+      const hints = prev.meta?.hints || { count: 0, penalty: 0 };
+      prev.meta = { ...prev.meta, hints: { count: Math.max(hints.count, 1), penalty: hints.penalty - score } };
+      return;
+    }
+    if (action === '(time)') {
+      move.type = 'adjustment';
+      move.meta = { reason: 'overtime' };
+    } else if (/^\(.*\)$/.test(action)) {
+      const tiles = Array.from(action.slice(1, -1));
+      move.type = 'adjustment';
+      move.meta = { reason: score > 0 ? 'going_out_bonus' : 'rack_penalty', tiles };
+      if (score <= 0) player.rack = tiles;
+    } else if (action === '-') {
+      if (score < 0) move.meta = { ...move.meta, reason: 'timeout', penalty: -score };
+    } else if (action.startsWith('-')) {
+      move.type = 'exchange';
+      move.meta = { ...move.meta, discarded: Array.from(action.slice(1)) };
+    } else {
+      const at = parseCoordinate(action) || fail(`неверная клетка ${action}`);
+      const word = parts[1] || fail('нет слова');
+      const [dr, dc] = at.vertical ? [1, 0] : [0, 1];
+      const placedTiles: PlacedTile[] = [];
+      let full = '';
+      Array.from(word).forEach((ch, i) => {
+        const row = at.row + dr * i;
+        const col = at.col + dc * i;
+        if (row >= BOARD_SIZE || col >= BOARD_SIZE) fail('слово выходит за доску');
+        const existing = board[row][col];
+        if (ch === '.' || existing) {
+          if (!existing) fail(`на клетке ${formatCoordinate(row, col, at.vertical)} нет фишки`);
+          if (ch !== '.' && existing!.letter !== ch.toUpperCase()) fail(`на клетке ${formatCoordinate(row, col, at.vertical)} стоит ${existing!.letter}`);
+          full += existing!.letter;
+          return;
+        }
+        const letter = ch.toUpperCase();
+        const tile: PlacedTile = { row, col, letter, blank: ch !== letter };
+        placedTiles.push(tile);
+        full += letter;
+      });
+      if (placedTiles.length === 0) fail('ход не выкладывает фишек');
+      for (const t of placedTiles) board[t.row][t.col] = { letter: t.letter, blank: !!t.blank };
+      move.type = 'play';
+      move.words = [full];
+      move.meta = { ...move.meta, placedTiles };
+    }
+    game.moves.push(move);
+  });
+
+  if (game.players.length === 0) throw new Error('В записи нет игроков (#player1 …)');
+  return game;
+}
@@ -0,0 +1,71 @@
+import { BOARD_SIZE, type BoardCell, type Move, type PlacedTile, type Player } from "./schema";
+
+// One position of a replayed game
+export interface ReplayFrame {
+  // Move that led to this position; null for the starting position
+  move: Move | null;
+  board: BoardCell[][];
+  // Tiles put down by `move`
+  placed: PlacedTile[];
+  racks: Record<string, (string | null)[]>;
+  scores: Record<string, number>;
+}
+
+// Moves taken on a player's own turn; each records the rack held before it
+const TURN_MOVES = new Set<Move['type']>(['play', 'skip', 'exchange', 'challenged', 'takeback']);
+
+/**
+ * Rebuild every position of a game from its moves. Frame 0 is the empty
+ * board and frame i follows `moves[i - 1]`. A player's rack at a frame is the
+ * one recorded on their next turn, or their final rack after their last one;
+ * games saved before moves carried racks show empty racks. Withdrawn
+ * ('challenged') and taken back ('takeback') plays leave the board unchanged.
+ */
+export function buildReplay(state: { players: Pick<Player, 'id' | 'rack'>[]; moves?: Move[] }): ReplayFrame[] {
+  const moves = state.moves || [];
+  const playerIds = Array.from(new Set([...state.players.map(p => p.id), ...moves.map(m => m.playerId)]));
+
+  const rackAt = (playerId: string, from: number): (string | null)[] => {
+    for (let j = from; j < moves.length; j++) {
+      const m = moves[j];
+      if (m.playerId !== playerId || !TURN_MOVES.has(m.type)) continue;
+      return Array.isArray(m.meta?.rackBefore) ? m.meta!.rackBefore : [];
+    }
+    return state.players.find(p => p.id === playerId)?.rack || [];
+  };
+
+  let board: BoardCell[][] = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null));
+  let scores: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+  const frames: ReplayFrame[] = [{
+    move: null,
+    board,
+    placed: [],
+    racks: Object.fromEntries(playerIds.map(id => [id, rackAt(id, 0)])),
+    scores,
+  }];
+
+  moves.forEach((m, i) => {
+    const placed: PlacedTile[] = m.type === 'play' && Array.isArray(m.meta?.placedTiles) ? m.meta!.placedTiles : [];
+    if (placed.length > 0) {
+      board = board.map(row => [...row]);
+      for (const t of placed) board[t.row][t.col] = { letter: t.letter, blank: !!t.blank };
+    }
+    scores = { ...scores, [m.playerId]: (scores[m.playerId] || 0) + m.score };
+    // A failed challenge cost the challenger points without a move of their own
+    const challenge = m.meta?.challenge;
+    if (challenge && !challenge.upheld && challenge.penalty) {
+      scores[challenge.by] = (scores[challenge.by] || 0) - challenge.penalty;
+    }
+    // Hints taken during the turn cost points on top of the move
+    if (m.meta?.hints?.penalty) scores[m.playerId] -= m.meta.hints.penalty;
+    frames.push({
+      move: m,
+      board,
+      placed,
+      racks: Object.fromEntries(playerIds.map(id => [id, rackAt(id, i + 1)])),
+      scores,
+    });
+  });
+
+  return frames;
+}
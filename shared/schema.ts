@@ -34,6 +34,8 @@ export const SPECIAL_SQUARES: Record<SquareType, number[][]> = {
   NORMAL: []
 };
 
+export type BotLevel = 'easy' | 'medium' | 'hard';
+
 export interface Player {
   id: string;
   name: string;
@@ -41,6 +43,24 @@ export interface Player {
   avatarUrl?: string;
   score: number;
   ready?: boolean;
+  // Set for computer opponents; the server plays their turns
+  bot?: BotLevel;
+  // Persistent account of a human player (see Account); bots have none
+  accountId?: string;
+  // Chess-clock time left in ms, not counting the turn in progress;
+  // negative once the player is in overtime. Only set in chess-clock games.
+  timeBankMs?: number;
+  // Number of tiles held, sent instead of the rack to viewers who may not see it
+  tileCount?: number;
+  // Hints taken during the turn in progress; moved to the move that ends it
+  turnHints?: HintUsage;
+}
+
+// Hints a player asked for during one turn and the points they cost
+// (recorded as Move.meta.hints)
+export interface HintUsage {
+  count: number;
+  penalty: number;
 }
 
 
@@ -51,19 +71,112 @@ export interface PlacedTile {
   blank?: boolean;
 }
 
+// How one word of a play was scored: (base + letterBonus) × wordMultiplier
+export interface WordScore {
+  word: string;
+  // Face value of its letters (blanks count 0)
+  base: number;
+  // Extra points from double- and triple-letter squares under new tiles
+  letterBonus: number;
+  // Product of the word multipliers under new tiles
+  wordMultiplier: number;
+  score: number;
+}
+
 export interface Move {
   playerId: string;
   playerName: string;
   words: string[];
   score: number;
+  // Per-word breakdown of a play's score, in the order of `words`
+  wordScores?: WordScore[];
+  // Bonus for playing all seven tiles, included in `score`
+  bingo?: number;
   turn: number;
   timestamp: number;
-  type?: 'play' | 'skip' | 'exchange';
+  // 'challenged': a play withdrawn after a successful challenge (scores 0)
+  // 'adjustment': end-of-game rack penalty or going-out bonus (signed score),
+  // or the hints of a turn that ended without a move (zero score, meta.hints)
+  // 'takeback': a play its player took back with the others' consent (scores 0)
+  type?: 'play' | 'skip' | 'exchange' | 'challenged' | 'adjustment' | 'takeback';
   meta?: Record<string, any> | null;
 }
 
 export type BoardCell = { letter: string; blank?: boolean } | null;
 
+// What the server does when a play forms words missing from the dictionary:
+// reject it, accept it but flag the move, or accept it and open a challenge
+export type DictionaryPolicy = 'reject' | 'flag' | 'challenge';
+
+// Whether opponents may dispute a play: a failed challenge costs nothing
+// extra under 'single' (beyond the configured penalty) and the challenger's
+// next turn under 'double'
+export type ChallengeRule = 'none' | 'single' | 'double';
+
+export interface PendingChallenge {
+  // Index into `moves` of the disputed play
+  moveIndex: number;
+  playerId: string;
+  words: string[];
+  openedAt: number;
+  // Challenges are accepted until this time (ms since epoch) or the next move
+  expiresAt?: number;
+}
+
+// A player's request to take back their last play, waiting for the others
+export interface PendingTakeback {
+  // Index into `moves` of the play
+  moveIndex: number;
+  playerId: string;
+  words: string[];
+  requestedAt: number;
+  // Opponents who agreed so far; every other human player has to
+  approvedBy: string[];
+}
+
+// What happens to a player whose turn time runs out: the turn is simply
+// skipped, or skipped and `timeoutPenalty` points are deducted
+export type TimeoutAction = 'skip' | 'penalty';
+
+// Per-match rules, chosen by the host in the lobby before the game starts
+export interface GameSettings {
+  // Time for a single turn, in seconds (not used with a chess clock)
+  turnSeconds: number;
+  // Chess-clock time bank per player, in seconds (0 = no chess clock)
+  totalSeconds: number;
+  // 2–4
+  maxPlayers: number;
+  // Extra points for playing all seven rack tiles at once
+  bingoBonus: number;
+  // Whether tiles may be exchanged while fewer than 7 remain in the bag
+  exchangeUnderSeven: boolean;
+  timeoutAction: TimeoutAction;
+  timeoutPenalty: number;
+  // Points lost at the end per started minute over the chess-clock time bank
+  // (past 10 minutes over, the player's turns time out; see turnDeadline)
+  overtimePenalty: number;
+  // How far behind spectators see the players' tile previews, in seconds (0 = live)
+  spectatorPreviewDelay: number;
+  // Hints each player may ask for per game (0 = no hints)
+  hintLimit: number;
+  // Points each hint costs
+  hintPenalty: number;
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  turnSeconds: MOVE_TIME,
+  totalSeconds: 0,
+  maxPlayers: 3,
+  bingoBonus: 50,
+  exchangeUnderSeven: true,
+  timeoutAction: 'skip',
+  timeoutPenalty: 10,
+  overtimePenalty: 10,
+  spectatorPreviewDelay: 0,
+  hintLimit: 0,
+  hintPenalty: 0,
+};
+
 export interface GameState {
   board: BoardCell[][];
   tileBag: string[];
@@ -74,6 +187,8 @@ export interface GameState {
   previews?: Record<string, PlacedTile[]>;
   gameEnded?: boolean;
   winnerId?: string;
+  // Everyone sharing the top final score; more than one means a tie
+  winnerIds?: string[];
   endReason?: string;
   // Whether the game is currently paused (clients should stop timers)
   paused?: boolean;
@@ -83,6 +198,147 @@ export interface GameState {
   turnStart?: number | null;
   // When the game was paused (ms since epoch) or null when not paused
   pausedAt?: number | null;
+  // Open dispute over the last play's unknown words (DictionaryPolicy 'challenge')
+  pendingChallenge?: PendingChallenge | null;
+  // Players who lost their next turn to a failed double challenge
+  forfeitTurns?: string[];
+  // Open request to take back the last play
+  pendingTakeback?: PendingTakeback | null;
+  // Display name of the room hosting this game
+  roomName?: string;
+  // When the room was created (ms since epoch)
+  createdAt?: number;
+  // Rules for this match; games saved before settings existed use the defaults
+  settings?: GameSettings;
+  // Set once the finished game has been archived and added to the players' stats
+  statsRecorded?: boolean;
+  // Identifies one match from its start; rooms host many games over time
+  gameId?: string;
+  // Tiles left in the bag, sent instead of tileBag to viewers who may not see it
+  bagCount?: number;
+  // Letters the viewer has not seen (bag and opponents' racks) with their counts
+  unseenTiles?: Record<string, number>;
+  // Bumped by every save; saving a state read at an older version fails
+  version?: number;
+}
+
+// Settings of `state` with defaults filled in
+export function getGameSettings(state: Pick<GameState, 'settings'> | null | undefined): GameSettings {
+  return { ...DEFAULT_GAME_SETTINGS, ...(state?.settings || {}) };
+}
+
+// Hints `playerId` has asked for in the current game (see GameSettings.hintLimit)
+export function hintsUsed(state: Pick<GameState, 'players' | 'moves'>, playerId: string): number {
+  const recorded = (state.moves || []).reduce((sum, m) => sum + (m.playerId === playerId ? m.meta?.hints?.count ?? 0 : 0), 0);
+  return recorded + (state.players.find(p => p.id === playerId)?.turnHints?.count ?? 0);
+}
+
+// A player identity that outlives single games: the name and password a
+// player joins with. Per-game player ids link to it via Player.accountId.
+export interface Account {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface BestMove {
+  score: number;
+  words: string[];
+  playedAt: number;
+}
+
+// Totals over every finished game of one account
+export interface PlayerStats {
+  accountId: string;
+  name: string;
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  // Sum of final scores; divide by `games` for the average
+  totalScore: number;
+  bestMove: BestMove | null;
+  // Plays that used all seven tiles
+  bingos: number;
+  longestWord: string | null;
+  updatedAt: number;
+}
+
+// A finished game, kept after its room moves on to the next one
+export interface ArchivedGame {
+  // The game's GameState.gameId
+  id: string;
+  // Room the game was played in; absent for imported games
+  roomId?: string;
+  roomName?: string;
+  // Loaded from a GCG file rather than played here
+  imported?: boolean;
+  endedAt: number;
+  endReason?: string;
+  winnerIds: string[];
+  // With final scores and racks
+  players: Player[];
+  moves: Move[];
+  settings?: GameSettings;
+}
+
+// Game history listing entry: an archived game without its moves
+export type ArchivedGameSummary = Omit<ArchivedGame, 'moves'>;
+
+// A play the move generator found for a position
+export interface CandidatePlay {
+  tiles: PlacedTile[];
+  words: string[];
+  score: number;
+}
+
+// One turn of a finished game compared with the best plays available
+export interface TurnAnalysis {
+  // Index into the game's `moves`
+  moveIndex: number;
+  playerId: string;
+  // What the player scored (0 for passes, exchanges and withdrawn plays)
+  actualScore: number;
+  // Top-scoring plays from the same board and rack, best first
+  alternatives: CandidatePlay[];
+  // How far the actual score fell short of the best play
+  pointsLost: number;
+}
+
+export interface PlayerAnalysis {
+  playerId: string;
+  name: string;
+  turns: number;
+  actualTotal: number;
+  bestTotal: number;
+  pointsLost: number;
+  // actualTotal / bestTotal as a percentage (100 when nothing could be scored)
+  accuracy: number;
+}
+
+export interface GameAnalysis {
+  gameId: string;
+  // Only turns whose rack was recorded can be analyzed
+  turns: TurnAnalysis[];
+  players: PlayerAnalysis[];
+}
+
+// A seated player as anyone may look them up (GET /api/player/:id, /api/session)
+export interface PlayerInfo extends Pick<Player, 'id' | 'name' | 'score' | 'avatarUrl'> {
+  roomId: string;
+}
+
+// Lobby listing entry for one room
+export interface RoomSummary {
+  id: string;
+  name: string;
+  playerNames: string[];
+  maxPlayers: number;
+  inProgress: boolean;
+  gameEnded: boolean;
+  createdAt: number | null;
+  // Sockets following the game without a seat in it
+  spectators: number;
 }
 
 export const playerSchema = z.object({
@@ -92,6 +348,10 @@ export const playerSchema = z.object({
   avatarUrl: z.string().url().optional(),
   score: z.number(),
   ready: z.boolean().optional(),
+  bot: z.enum(['easy', 'medium', 'hard']).optional(),
+  accountId: z.string().optional(),
+  timeBankMs: z.number().optional(),
+  turnHints: z.object({ count: z.number(), penalty: z.number() }).optional(),
 });
 
 export const boardCellSchema = z.object({
@@ -99,6 +359,20 @@ export const boardCellSchema = z.object({
   blank: z.boolean().optional()
 }).nullable();
 
+export const gameSettingsSchema = z.object({
+  turnSeconds: z.number().int().min(15).max(3600),
+  totalSeconds: z.number().int().min(0).max(4 * 3600),
+  maxPlayers: z.number().int().min(2).max(4),
+  bingoBonus: z.number().int().min(0).max(200),
+  exchangeUnderSeven: z.boolean(),
+  timeoutAction: z.enum(['skip', 'penalty']),
+  timeoutPenalty: z.number().int().min(0).max(100),
+  overtimePenalty: z.number().int().min(0).max(100),
+  spectatorPreviewDelay: z.number().int().min(0).max(600),
+  hintLimit: z.number().int().min(0).max(20),
+  hintPenalty: z.number().int().min(0).max(50),
+});
+
 export const gameStateSchema = z.object({
   board: z.array(z.array(boardCellSchema)),
   tileBag: z.array(z.string()),
@@ -112,7 +386,15 @@ export const gameStateSchema = z.object({
     score: z.number(),
     turn: z.number(),
     timestamp: z.number(),
-    type: z.enum(['play', 'skip', 'exchange']).optional(),
+    wordScores: z.array(z.object({
+      word: z.string(),
+      base: z.number(),
+      letterBonus: z.number(),
+      wordMultiplier: z.number(),
+      score: z.number(),
+    })).optional(),
+    bingo: z.number().optional(),
+    type: z.enum(['play', 'skip', 'exchange', 'challenged', 'adjustment', 'takeback']).optional(),
     meta: z.record(z.any()).nullable().optional()
   })).optional(),
   previews: z.record(z.array(z.object({ row: z.number(), col: z.number(), letter: z.string(), blank: z.boolean().optional() }))).optional(),